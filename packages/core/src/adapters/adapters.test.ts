@@ -0,0 +1,84 @@
+import { describe, expect, test } from "vitest";
+import { fromValibot } from "./valibot";
+import { fromYup } from "./yup";
+import { fromZod } from "./zod";
+
+describe("adapters", () => {
+  test("fromZod", async () => {
+    const schema = fromZod({
+      safeParseAsync: async (value: any) =>
+        value.name
+          ? { success: true as const, data: { name: value.name as string } }
+          : {
+              success: false as const,
+              error: { issues: [{ message: "required", path: ["name"] }] },
+            },
+    });
+    expect(await schema["~standard"].validate({ name: "John" })).toEqual({
+      value: { name: "John" },
+    });
+    expect(await schema["~standard"].validate({ name: "" })).toEqual({
+      issues: [{ message: "required", path: ["name"] }],
+    });
+  });
+
+  test("fromValibot", async () => {
+    const schema = fromValibot("schema", (_schema, value: any) =>
+      value.name
+        ? { success: true as const, output: value }
+        : {
+            success: false as const,
+            issues: [
+              { message: "required", path: [{ key: "address" }, { key: 0 }] },
+            ],
+          }
+    );
+    expect(await schema["~standard"].validate({ name: "John" })).toEqual({
+      value: { name: "John" },
+    });
+    expect(await schema["~standard"].validate({})).toEqual({
+      issues: [{ message: "required", path: ["address", 0] }],
+    });
+  });
+
+  test("fromYup", async () => {
+    const validationError = (message: string, path?: string, inner = []) => ({
+      name: "ValidationError",
+      message,
+      path,
+      inner,
+    });
+    const schema = fromYup({
+      validate: async (value: any) => {
+        if (value === "fail") {
+          throw new Error("other error");
+        }
+        if (value.contacts) {
+          throw validationError("2 errors", undefined, [
+            validationError("required", "contacts[0].name"),
+            validationError("invalid", 'contacts["1"].email'),
+          ] as any);
+        }
+        if (value.name === "") {
+          throw validationError("required", "name");
+        }
+        return value;
+      },
+    });
+    expect(await schema["~standard"].validate({ name: "John" })).toEqual({
+      value: { name: "John" },
+    });
+    expect(await schema["~standard"].validate({ name: "" })).toEqual({
+      issues: [{ message: "required", path: ["name"] }],
+    });
+    expect(await schema["~standard"].validate({ contacts: [] })).toEqual({
+      issues: [
+        { message: "required", path: ["contacts", "0", "name"] },
+        { message: "invalid", path: ["contacts", "1", "email"] },
+      ],
+    });
+    await expect(schema["~standard"].validate("fail")).rejects.toThrowError(
+      "other error"
+    );
+  });
+});
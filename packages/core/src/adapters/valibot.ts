@@ -0,0 +1,41 @@
+import type { StandardSchemaV1 } from "../composables/lib/schema";
+
+type ValibotResult<O> =
+  | { success: true; output: O }
+  | {
+      success: false;
+      issues: { message: string; path?: { key: unknown }[] }[];
+    };
+
+/**
+ * Wraps a valibot schema, for valibot versions that don't implement Standard Schema (< 1.0).
+ * Valibot's safeParseAsync is passed in, so valibot stays out of the core.
+ *
+ * @example fromValibot(LoginSchema, safeParseAsync)
+ */
+export function fromValibot<S, O>(
+  schema: S,
+  safeParseAsync: (
+    schema: S,
+    value: unknown
+  ) => Promise<ValibotResult<O>> | ValibotResult<O>
+): StandardSchemaV1<unknown, O> {
+  return {
+    "~standard": {
+      version: 1,
+      vendor: "valibot",
+      validate: async (value) => {
+        const result = await safeParseAsync(schema, value);
+        if (result.success) {
+          return { value: result.output };
+        }
+        return {
+          issues: result.issues.map((issue) => ({
+            message: issue.message,
+            path: issue.path?.map((segment) => segment.key as PropertyKey),
+          })),
+        };
+      },
+    },
+  };
+}
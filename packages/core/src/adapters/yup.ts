@@ -0,0 +1,51 @@
+import type { StandardSchemaV1 } from "../composables/lib/schema";
+
+type YupSchemaLike<O> = {
+  validate: (value: unknown, options?: { abortEarly?: boolean }) => Promise<O>;
+};
+
+type YupValidationError = {
+  name: string;
+  message: string;
+  path?: string;
+  inner?: YupValidationError[];
+};
+
+/**
+ * Turns a yup path (e.g. contacts[0].name) into path segments
+ */
+function yupPath(path: string) {
+  return path
+    .replace(/\[["']?([^\]"']+)["']?\]/g, ".$1")
+    .split(".")
+    .filter(Boolean);
+}
+
+/**
+ * Wraps a yup schema. All errors are collected (abortEarly: false).
+ */
+export function fromYup<O>(schema: YupSchemaLike<O>): StandardSchemaV1<unknown, O> {
+  return {
+    "~standard": {
+      version: 1,
+      vendor: "yup",
+      validate: async (value) => {
+        try {
+          return { value: await schema.validate(value, { abortEarly: false }) };
+        } catch (e) {
+          const error = e as YupValidationError;
+          if (error?.name !== "ValidationError") {
+            throw error;
+          }
+          const errors = error.inner?.length ? error.inner : [error];
+          return {
+            issues: errors.map((error) => ({
+              message: error.message,
+              path: error.path ? yupPath(error.path) : undefined,
+            })),
+          };
+        }
+      },
+    },
+  };
+}
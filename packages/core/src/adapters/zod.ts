@@ -0,0 +1,30 @@
+import type { StandardSchemaV1 } from "../composables/lib/schema";
+
+type ZodSchemaLike<O> = {
+  safeParseAsync: (value: unknown) => Promise<
+    | { success: true; data: O }
+    | {
+        success: false;
+        error: { issues: { message: string; path: (string | number)[] }[] };
+      }
+  >;
+};
+
+/**
+ * Wraps a zod schema, for zod versions that don't implement Standard Schema (< 3.24)
+ */
+export function fromZod<O>(schema: ZodSchemaLike<O>): StandardSchemaV1<unknown, O> {
+  return {
+    "~standard": {
+      version: 1,
+      vendor: "zod",
+      validate: async (value) => {
+        const result = await schema.safeParseAsync(value);
+        if (result.success) {
+          return { value: result.data };
+        }
+        return { issues: result.error.issues };
+      },
+    },
+  };
+}
@@ -0,0 +1,300 @@
+/**
+ * @vitest-environment happy-dom
+ */
+import { mount } from "@vue/test-utils";
+import flushPromises from "flush-promises";
+import { describe, expect, test, vi } from "vitest";
+import { createSSRApp, h, toRaw } from "vue";
+import type { Component } from "vue";
+import { renderToString } from "vue/server-renderer";
+import { useForm } from "../composables/useForm";
+import FormCheckboxGroup from "./FormCheckboxGroup.vue";
+import FormError from "./FormError.vue";
+import FormFile from "./FormFile.vue";
+import FormInput from "./FormInput.vue";
+import FormRadioGroup from "./FormRadioGroup.vue";
+import FormSelect from "./FormSelect.vue";
+import FormTextarea from "./FormTextarea.vue";
+
+const render = (component: Component, props: Record<string, unknown>) =>
+  renderToString(createSSRApp({ render: () => h(component, props) }));
+
+const mountField = (component: Component, props: Record<string, unknown>) =>
+  mount(component, { props, attachTo: document.body });
+
+describe("components", () => {
+  test("FormInput binds the value and forwards attrs", async () => {
+    const { name } = useForm({ name: "John" });
+    const html = await render(FormInput, {
+      field: name,
+      id: "name",
+      placeholder: "Your name",
+    });
+    expect(html).toContain('value="John"');
+    expect(html).toContain('id="name"');
+    expect(html).toContain('placeholder="Your name"');
+  });
+
+  test("FormInput shows a boolean as a checkbox", async () => {
+    const { terms } = useForm({ terms: true });
+    const html = await render(FormInput, { field: terms, type: "checkbox" });
+    expect(html).toContain('type="checkbox"');
+    expect(html).toContain("checked");
+  });
+
+  test("FormTextarea binds the value", async () => {
+    const { bio } = useForm({ bio: "Hello" });
+    expect(await render(FormTextarea, { field: bio })).toContain(
+      ">Hello</textarea>"
+    );
+  });
+
+  test("FormSelect selects the option of the value", async () => {
+    const { size } = useForm({ size: 2 });
+    const html = await render(FormSelect, {
+      field: size,
+      options: [
+        { label: "Small", value: 1 },
+        { label: "Medium", value: 2 },
+      ],
+    });
+    expect(html).toContain('<option value="2" selected>Medium</option>');
+  });
+
+  test("FormCheckboxGroup checks the values in the array", async () => {
+    const { colors } = useForm({ colors: ["red", "blue"] });
+    const html = await render(FormCheckboxGroup, {
+      field: colors,
+      id: "colors",
+      options: [
+        { label: "Red", value: "red" },
+        { label: "Green", value: "green" },
+        { label: "Blue", value: "blue" },
+      ],
+    });
+    expect(html.match(/checked/g)).toHaveLength(2);
+    expect(html).toContain('id="colors-1"');
+    expect(html).toContain('role="group"');
+  });
+
+  test("FormRadioGroup checks the option of the value", async () => {
+    const { plan } = useForm({ plan: { value: { id: 2 } } });
+    const html = await render(FormRadioGroup, {
+      field: plan,
+      options: [
+        { label: "Free", value: { id: 1 } },
+        { label: "Pro", value: { id: 2 } },
+      ],
+    });
+    expect(html.match(/checked/g)).toHaveLength(1);
+    expect(html).toMatch(/checked>(<!--\[-->)?Pro/);
+  });
+
+  test("FormError shows the first error, linked to the input", async () => {
+    const { name } = useForm({
+      name: { value: "", rules: [(value: string) => !!value || "required"] },
+    });
+    expect(await render(FormError, { field: name })).toBe("<!--v-if-->");
+
+    await name.validate();
+    await flushPromises();
+    const input = await render(FormInput, { field: name });
+    const error = await render(FormError, { field: name });
+    const errorId = error.match(/id="([^"]+)"/)![1];
+    expect(error).toMatch(/>(<!--\[-->)?required/);
+    expect(input).toContain(`aria-describedby="${errorId}"`);
+    expect(input).toContain('aria-invalid="true"');
+  });
+
+  describe("mounted", () => {
+    test("FormInput updates the field on input and forwards attrs", async () => {
+      const { name } = useForm({ name: "" });
+      const wrapper = mountField(FormInput, {
+        modelValue: name,
+        placeholder: "Your name",
+        "data-test": "name",
+      });
+      const input = wrapper.find("input");
+      expect(input.attributes("placeholder")).toBe("Your name");
+      expect(input.attributes("data-test")).toBe("name");
+
+      await input.setValue("John");
+      expect(name.value).toBe("John");
+      await input.trigger("focus");
+      expect(name.focused).toBe(true);
+      await input.trigger("blur");
+      expect(name.touched).toBe(true);
+      wrapper.unmount();
+    });
+
+    test("FormInput applies the modifiers of v-model", async () => {
+      const { name, age } = useForm({ name: "", age: 0 });
+      const lazy = mountField(FormInput, {
+        modelValue: name,
+        modelModifiers: { lazy: true, trim: true },
+      });
+      const nameInput = lazy.find("input");
+      (nameInput.element as HTMLInputElement).value = "  John ";
+      await nameInput.trigger("input");
+      expect(name.value).toBe("");
+      await nameInput.trigger("change");
+      expect(name.value).toBe("John");
+
+      const number = mountField(FormInput, {
+        modelValue: age,
+        modelModifiers: { number: true },
+        type: "number",
+      });
+      await number.find("input").setValue("42");
+      expect(age.value).toBe(42);
+      lazy.unmount();
+      number.unmount();
+    });
+
+    test("FormInput follows a change of the field prop", async () => {
+      const { first, last } = useForm({ first: "John", last: "Doe" });
+      const wrapper = mountField(FormInput, { field: first });
+      const input = wrapper.find("input");
+      expect((input.element as HTMLInputElement).value).toBe("John");
+
+      await wrapper.setProps({ field: last });
+      expect((input.element as HTMLInputElement).value).toBe("Doe");
+      expect(input.attributes("id")).toMatch(/^last-/);
+      await input.setValue("Smith");
+      expect(last.value).toBe("Smith");
+      expect(first.value).toBe("John");
+      wrapper.unmount();
+    });
+
+    test("FormInput checks a boolean checkbox", async () => {
+      const { terms } = useForm({ terms: false });
+      const wrapper = mountField(FormInput, { field: terms, type: "checkbox" });
+      await wrapper.find("input").setValue(true);
+      expect(terms.value).toBe(true);
+      await wrapper.find("input").setValue(false);
+      expect(terms.value).toBe(false);
+      wrapper.unmount();
+    });
+
+    test("FormTextarea updates the field", async () => {
+      const { bio } = useForm({ bio: "" });
+      const wrapper = mountField(FormTextarea, {
+        modelValue: bio,
+        modelModifiers: { trim: true },
+      });
+      await wrapper.find("textarea").setValue(" Hello ");
+      expect(bio.value).toBe("Hello");
+      wrapper.unmount();
+    });
+
+    test("FormSelect sets the value of the selected option", async () => {
+      const { size } = useForm({ size: 1 });
+      const wrapper = mountField(FormSelect, {
+        field: size,
+        options: [
+          { label: "Small", value: 1 },
+          { label: "Medium", value: 2 },
+        ],
+      });
+      await wrapper.find("select").setValue("2");
+      expect(size.value).toBe(2);
+      wrapper.unmount();
+    });
+
+    test("FormCheckboxGroup adds and removes the values of the array", async () => {
+      const { colors } = useForm({ colors: ["red"] });
+      const wrapper = mountField(FormCheckboxGroup, {
+        field: colors,
+        options: [
+          { label: "Red", value: "red" },
+          { label: "Blue", value: "blue" },
+        ],
+      });
+      const [red, blue] = wrapper.findAll("input");
+      expect((red.element as HTMLInputElement).checked).toBe(true);
+      expect(red.attributes("name")).toBe("colors");
+
+      await blue.setValue(true);
+      expect(colors.value).toEqual(["red", "blue"]);
+      await red.setValue(false);
+      expect(colors.value).toEqual(["blue"]);
+      wrapper.unmount();
+    });
+
+    test("FormRadioGroup sets the value of the checked option", async () => {
+      const { plan, values } = useForm({ plan: { value: { id: 1 } } });
+      const wrapper = mountField(FormRadioGroup, {
+        field: plan,
+        options: [
+          { label: "Free", value: { id: 1 } },
+          { label: "Pro", value: { id: 2 } },
+        ],
+      });
+      const [free, pro] = wrapper.findAll("input");
+      expect((free.element as HTMLInputElement).checked).toBe(true);
+
+      await pro.setValue(true);
+      expect(values.value.plan).toEqual({ id: 2 });
+      expect((pro.element as HTMLInputElement).checked).toBe(true);
+      expect((free.element as HTMLInputElement).checked).toBe(false);
+      wrapper.unmount();
+    });
+
+    test("FormFile sets the selected files and clears the input on reset", async () => {
+      const { avatar, photos, resetForm } = useForm({
+        avatar: null as File | null,
+        photos: [] as File[],
+      });
+      const file = new File(["a"], "a.png", { type: "image/png" });
+      const selectFiles = async (
+        wrapper: ReturnType<typeof mountField>,
+        files: File[]
+      ) => {
+        const input = wrapper.find("input");
+        Object.defineProperty(input.element, "files", {
+          value: files,
+          configurable: true,
+        });
+        await input.trigger("change");
+      };
+
+      const single = mountField(FormFile, {
+        field: avatar,
+        accept: "image/*",
+      });
+      expect(single.find("input").attributes("accept")).toBe("image/*");
+      await selectFiles(single, [file]);
+      expect(toRaw(avatar.value)).toBe(file);
+
+      const multiple = mountField(FormFile, { field: photos, multiple: true });
+      await selectFiles(multiple, [file, file]);
+      expect(photos.value).toEqual([file, file]);
+
+      const input = single.find("input").element as HTMLInputElement;
+      const clear = vi.spyOn(input, "value", "set");
+      resetForm();
+      await flushPromises();
+      expect(avatar.value).toBe(null);
+      expect(clear).toHaveBeenCalledWith("");
+      single.unmount();
+      multiple.unmount();
+    });
+
+    test("FormError follows a change of the field prop", async () => {
+      const { first, last } = useForm({
+        first: { value: "", rules: [(value: string) => !!value || "first"] },
+        last: { value: "", rules: [(value: string) => !!value || "last"] },
+      });
+      await first.validate();
+      await last.validate();
+      await flushPromises();
+      const wrapper = mountField(FormError, { field: first });
+      expect(wrapper.text()).toBe("first");
+
+      await wrapper.setProps({ field: last });
+      expect(wrapper.text()).toBe("last");
+      expect(wrapper.find("p").attributes("id")).toMatch(/^last-.*-error$/);
+      wrapper.unmount();
+    });
+  });
+});
@@ -6,4 +6,55 @@ export type Form = {
   numberCast: number
   checkbox: string[]
   range: number
-};
\ No newline at end of file
+};
+
+/**
+ * An option of FormSelect, FormCheckboxGroup or FormRadioGroup
+ */
+export type FieldOption<V> = {
+  label: string;
+  value: V;
+  disabled?: boolean;
+};
+
+export type InputType =
+  | "checkbox"
+  | "color"
+  | "date"
+  | "datetime-local"
+  | "email"
+  | "hidden"
+  | "month"
+  | "number"
+  | "password"
+  | "range"
+  | "search"
+  | "tel"
+  | "text"
+  | "time"
+  | "url"
+  | "week";
+
+/**
+ * The modifiers of v-model on FormInput and FormTextarea, e.g. v-model.lazy.trim
+ */
+export type ModelModifiers = {
+  /**
+   * Updates the field on change instead of on every input
+   */
+  lazy?: boolean;
+  trim?: boolean;
+  number?: boolean;
+};
+
+/**
+ * Applies the trim and number modifiers, like v-model does
+ */
+export function modelInput(value: string, modifiers: ModelModifiers) {
+  const trimmed = modifiers.trim ? value.trim() : value;
+  if (modifiers.number) {
+    const number = parseFloat(trimmed);
+    return Number.isNaN(number) ? trimmed : number;
+  }
+  return trimmed;
+}
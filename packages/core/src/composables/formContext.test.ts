@@ -0,0 +1,111 @@
+import { describe, expect, expectTypeOf, test } from "vitest";
+import { createSSRApp, defineComponent, h } from "vue";
+import { renderToString } from "vue/server-renderer";
+import { injectForm, provideForm } from "./formContext";
+import { useField } from "./useField";
+import { useForm } from "./useForm";
+
+type Address = { street: string; city: string };
+
+const AddressEditor = defineComponent({
+  props: { city: { type: String, required: true } },
+  setup(props) {
+    const form = useForm<Address>({ street: "", city: props.city });
+    provideForm(form);
+    return () => h(CityField);
+  },
+});
+
+const CityField = defineComponent({
+  setup() {
+    const { modelValue } = injectForm<Address>().useField("city");
+    expectTypeOf(modelValue.value).toEqualTypeOf<string>();
+    return () => h("span", modelValue.value);
+  },
+});
+
+const render = (component: Parameters<typeof h>[0]) =>
+  renderToString(createSSRApp({ render: () => h(component) }));
+
+describe("form context", () => {
+  test("fields resolve to the nearest provided form", async () => {
+    const html = await render({
+      render: () => [
+        h(AddressEditor, { city: "Amsterdam" }),
+        h(AddressEditor, { city: "Utrecht" }),
+      ],
+    });
+    expect(html).toContain("<span>Amsterdam</span>");
+    expect(html).toContain("<span>Utrecht</span>");
+  });
+
+  test("injectForm returns the provided form", async () => {
+    let injected: unknown;
+    const form = useForm<Address>({ street: "", city: "" });
+    await render({
+      setup() {
+        provideForm(form);
+        return () =>
+          h({
+            setup() {
+              injected = injectForm<Address>();
+              return () => null;
+            },
+          });
+      },
+    });
+    expect(injected).toBe(form);
+  });
+
+  test("injectForm throws without a provided form", async () => {
+    await expect(
+      render({
+        setup() {
+          injectForm();
+          return () => null;
+        },
+      })
+    ).rejects.toThrowError(
+      "InjectForm: No form is provided. Did you forget to call provideForm in a parent component?"
+    );
+  });
+
+  test("useField throws for an unknown field", async () => {
+    await expect(
+      render({
+        setup() {
+          provideForm(useForm({ city: "" }));
+          return () =>
+            h({
+              setup() {
+                useField("street");
+                return () => null;
+              },
+            });
+        },
+      })
+    ).rejects.toThrowError(
+      "UseField: Field with name street does not exist in the form."
+    );
+  });
+
+  test("the useField of a form throws for an unknown field", async () => {
+    await expect(
+      render({
+        setup() {
+          provideForm(useForm({ city: "" }));
+          return () =>
+            h({
+              setup() {
+                // @ts-expect-error not a field of the form
+                injectForm<{ city: string }>().useField("street");
+                return () => null;
+              },
+            });
+        },
+      })
+    ).rejects.toThrowError(
+      "UseField: Field with name street does not exist in the form."
+    );
+  });
+});
@@ -0,0 +1,37 @@
+import { inject, provide } from "vue";
+import type { InjectionKey } from "vue";
+import { FormResult } from "./useForm";
+
+export const formContextKey: InjectionKey<FormResult<any, any>> =
+  Symbol("formContext");
+
+/**
+ * Makes the form available to all child components, without a global name.
+ * Every component that provides a form gets its own instance, so the same
+ * component can be rendered more than once on a page.
+ *
+ * @param {FormResult<T>} form - The result of useForm.
+ */
+export function provideForm<T extends Record<string, unknown>, O = T>(
+  form: FormResult<T, O>
+) {
+  provide(formContextKey, form as FormResult<any, any>);
+}
+
+/**
+ * Returns the form of the nearest parent component that called provideForm
+ *
+ * @returns {FormResult<T>} The result of the form.
+ */
+export function injectForm<
+  T extends Record<string, unknown>,
+  O = T
+>(): FormResult<T, O> {
+  const form = inject(formContextKey, undefined);
+  if (!form) {
+    throw new Error(
+      "InjectForm: No form is provided. Did you forget to call provideForm in a parent component?"
+    );
+  }
+  return form;
+}
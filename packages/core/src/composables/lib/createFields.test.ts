@@ -39,10 +39,12 @@ describe("createFields", () => {
         "name": "someTextField",
         "pending": false,
         "reset": [Function],
+        "ruleResults": {},
         "touched": false,
         "valid": true,
         "validate": [Function],
         "value": "hello world",
+        "warnings": [],
         Symbol(fieldRules): [],
         Symbol(fieldPrevValue): "hello world",
       }
@@ -92,10 +94,12 @@ describe("createFields", () => {
         "name": "someTextField",
         "pending": false,
         "reset": [Function],
+        "ruleResults": {},
         "touched": false,
         "valid": true,
         "validate": [Function],
         "value": "hello world",
+        "warnings": [],
         Symbol(fieldRules): [
           {
             "rule": [Function],
@@ -135,10 +139,12 @@ describe("createFields", () => {
         "name": "someTextField",
         "pending": false,
         "reset": [Function],
+        "ruleResults": {},
         "touched": false,
         "valid": true,
         "validate": [Function],
         "value": "hello world",
+        "warnings": [],
         Symbol(fieldRules): [],
         Symbol(fieldPrevValue): "hello world",
       }
@@ -150,6 +156,11 @@ describe("createFields", () => {
     const spy = vi.fn();
     field.rules = [spy];
     const results = await field.validate();
-    expect(spy).toHaveBeenCalledWith("hello world", "someTextField", formState);
+    expect(spy).toHaveBeenCalledWith(
+      "hello world",
+      "someTextField",
+      formState,
+      expect.any(AbortSignal)
+    );
   });
 });
@@ -1,84 +1,246 @@
-import { Ref, nextTick, watch } from "vue";
+import {
+  EffectScope,
+  Ref,
+  effectScope,
+  nextTick,
+  toRaw,
+  unref,
+  watch,
+} from "vue";
 import {
   FormRule,
   InternalField,
   InternalFormState,
   KindOfRule,
   Rule,
+  RuleResult,
+  fieldAbortController,
+  fieldDisabled,
+  fieldDisplayValue,
   fieldPrevValue,
   fieldRules,
+  fieldValidationLock,
+  formFieldArrays,
   formIgnoreDirty,
   formIgnoreValidation,
   formValidationLock,
+  getInitialValue,
   resetField,
+  runInFormScope,
 } from "../useForm";
-import { collectErrors, validateField } from "./validation";
+import {
+  clearExternalErrors,
+  collectErrors,
+  shouldValidate,
+  triggerFieldValidation,
+  validateField,
+} from "./validation";
 import { cloneDeep } from "../../utils/cloneDeep";
+import { deepEqual } from "../../utils/deepEqual";
+
+// every field has its own scope, so its watchers stop when the field is removed
+const fieldScopes = new WeakMap<object, EffectScope>();
 
 export function createFields<T extends Record<string, unknown>>(
   formState: Ref<InternalFormState<T>>
 ) {
-  for (const [key, field] of Object.entries(formState.value.fields) as [
-    keyof T,
-    InternalField<T[keyof T], T>
-  ][]) {
-    field[fieldRules] = createValidationObject(field.rules) as Rule<
-      T[keyof T],
-      T
-    >[];
-    field.name = key as string;
-    field.dirty = false;
-    field.touched = false;
-    field.valid = true;
+  for (const [key, field] of Object.entries(formState.value.fields)) {
+    createField(formState, key, field);
+  }
+}
+
+export function createField<T extends Record<string, unknown>>(
+  formState: Ref<InternalFormState<T>>,
+  key: string,
+  field: InternalField<T[keyof T], T>
+) {
+  field[fieldRules] = createValidationObject(field.rules) as Rule<
+    T[keyof T],
+    T
+  >[];
+  field.name = key;
+  field.dirty = false;
+  field.touched = false;
+  field.valid = true;
+  field.focused = false;
+  field.errors = [];
+  field.warnings = [];
+  field.ruleResults = initialRuleResults(field[fieldRules]);
+  field.pending = false;
+
+  field[fieldPrevValue] = cloneDeep(field.value);
+  field.reset = () => {
+    formState.value[formIgnoreDirty] = true;
+    formState.value[formIgnoreValidation] = true;
+    resetField(formState, field.name, field);
+    formState.value[formFieldArrays]?.[field.name]?.reset();
+    formState.value[formValidationLock] = undefined;
+    nextTick(() => {
+      collectErrors(formState);
+      collectDirty(formState);
+      formState.value[formIgnoreDirty] = false;
+      formState.value[formIgnoreValidation] = false;
+    });
+  };
+
+  field.focus = (evt: FocusEvent) => {
+    field.focused = true;
+  };
+
+  field.blur = (evt: FocusEvent) => {
+    field.touched = true;
     field.focused = false;
-    field.errors = [];
-    field.pending = false;
-
-    field[fieldPrevValue]= cloneDeep(field.value);
-    field.reset = () => {
-      formState.value[formIgnoreDirty]= true;
-      formState.value[formIgnoreValidation] = true;
-      resetField(formState, field.name, field);
-      formState.value[formValidationLock] = undefined;
-      nextTick(() => {
-        collectErrors(formState);
-        formState.value[formIgnoreDirty] = false;
-      });
-    };
+    formState.value.touched = true;
+    if (shouldValidate(formState, field, "blur")) {
+      triggerFieldValidation(formState, field);
+    }
+  };
 
-    field.focus = (evt: FocusEvent) => {
-      field.focused = true;
-    };
+  Object.defineProperty(field, "rules", {
+    set: function (newValidate) {
+      const field = this as InternalField<T[keyof T], T>;
+      field[fieldRules] = createValidationObject(newValidate) as Rule<
+        T[keyof T],
+        T
+      >[];
+      field.ruleResults = initialRuleResults(
+        field[fieldRules],
+        field.ruleResults
+      );
+    },
+    get: function () {
+      return (this as InternalField<T[keyof T], T>)[fieldRules];
+    },
+  });
 
-    field.blur = (evt: FocusEvent) => {
-      field.touched = true;
-      field.focused = false;
-      formState.value.touched = true;
-    };
+  Object.defineProperty(field, "displayValue", {
+    set: function (input) {
+      const field = this as InternalField<T[keyof T], T>;
+      const value = field.parse ? field.parse(input) : input;
+      field[fieldDisplayValue] = { input, value };
+      field.value = value;
+    },
+    get: function () {
+      const field = this as InternalField<T[keyof T], T>;
+      // keep what was typed (e.g. "1.") as long as it is the current value
+      const displayValue = field[fieldDisplayValue];
+      if (displayValue && deepEqual(displayValue.value, field.value)) {
+        return displayValue.input;
+      }
+      return field.format ? field.format(field.value) : field.value;
+    },
+  });
 
-    Object.defineProperty(field, "rules", {
-      set: function (newValidate) {
-        (this as InternalField<T[keyof T], T>)[fieldRules] =
-          createValidationObject(newValidate) as Rule<T[keyof T], T>[];
-      },
-      get: function () {
-        return (this as InternalField<T[keyof T], T>)[fieldRules];
-      },
-    });
+  // read from the raw field, reactive would unwrap a ref
+  const disabled = toRaw(field).disabled;
+  Object.defineProperty(field, "disabled", {
+    set: function (newDisabled) {
+      (this as InternalField<T[keyof T], T>)[fieldDisabled] = newDisabled;
+    },
+    get: function () {
+      const disabled = (this as InternalField<T[keyof T], T>)[fieldDisabled];
+      return typeof disabled === "function"
+        ? disabled(formState)
+        : Boolean(unref(disabled));
+    },
+  });
+  if (disabled !== undefined) {
+    field[fieldDisabled] = disabled;
+  }
 
-    field.validate = validateField(formState, field);
+  field.validate = validateField(formState, field);
 
+  const scope = runInFormScope(formState, () => effectScope());
+  fieldScopes.set(toRaw(field), scope);
+  scope.run(() => {
     watch(
       () => field.value,
       () => {
+        if (clearExternalErrors(field)) {
+          collectErrors(formState);
+        }
         if (!formState.value[formIgnoreDirty]) {
-          field.dirty = true;
-          formState.value.dirty = true;
+          field.dirty = !deepEqual(
+            field.value,
+            getInitialValue(formState, field.name)
+          );
+          collectDirty(formState);
         }
       },
       { deep: true }
     );
-  }
+    watch(
+      () => field.disabled,
+      (disabled) => {
+        if (disabled) {
+          clearFieldErrors(formState, field);
+        } else if (formState.value[formFieldArrays]?.[field.name]) {
+          // the errors of the rows count again
+          collectErrors(formState);
+        }
+      }
+    );
+  });
+}
+
+/**
+ * Removes the errors of a field that got disabled, running validations are ignored
+ */
+function clearFieldErrors<T extends Record<string, unknown>>(
+  formState: Ref<InternalFormState<T>>,
+  field: InternalField<T[keyof T], T>
+) {
+  field[fieldAbortController]?.abort();
+  delete field[fieldValidationLock];
+  clearExternalErrors(field);
+  field.errors = [];
+  field.warnings = [];
+  field.ruleResults = initialRuleResults(field[fieldRules]);
+  field.valid = true;
+  field.pending = false;
+  collectErrors(formState);
+}
+
+/**
+ * An entry for every named rule, results of rules that are kept keep their result
+ */
+export function initialRuleResults<V, T extends Record<string, unknown>>(
+  rules: Rule<V, T>[],
+  previous: Record<string, RuleResult> = {}
+) {
+  return Object.fromEntries(
+    rules
+      .filter((rule) => rule.name)
+      .map((rule) => [
+        rule.name,
+        previous[rule.name!] ?? { valid: true, error: undefined, pending: false },
+      ])
+  ) as Record<string, RuleResult>;
+}
+
+/**
+ * Stops the watchers and running validations of a field that is removed from the form
+ */
+export function disposeField<T extends Record<string, unknown>>(
+  field: InternalField<T[keyof T], T>
+) {
+  fieldScopes.get(toRaw(field))?.stop();
+  fieldScopes.delete(toRaw(field));
+  field[fieldAbortController]?.abort();
+  delete field[fieldValidationLock];
+}
+
+/**
+ * Updates the dirty state of the form from the dirty state of the fields
+ */
+export function collectDirty<T extends Record<string, unknown>>(
+  formState: Ref<InternalFormState<T>>
+) {
+  const dirtyFields = Object.values(formState.value.fields)
+    .filter((field) => field.dirty)
+    .map((field) => [field.name, true]);
+  formState.value.dirtyFields = Object.fromEntries(dirtyFields);
+  formState.value.dirty = dirtyFields.length > 0;
 }
 
 export function createValidationObject<T extends Record<string, unknown>>(
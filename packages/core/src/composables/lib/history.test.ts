@@ -0,0 +1,182 @@
+import flushPromises from "flush-promises";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { nextTick } from "vue";
+import { useForm } from "../useForm";
+
+const isRequired = (value: string) => (value === "" ? "required" : true);
+
+describe("history", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const type = async (field: { value: string }, text: string) => {
+    for (const char of text) {
+      field.value += char;
+      await nextTick();
+      vi.advanceTimersByTime(100);
+    }
+  };
+
+  test("undo and redo changes of the values", async () => {
+    const { name, city, undo, redo, canUndo, canRedo } = useForm(
+      { name: "", city: "" },
+      { history: true }
+    );
+    expect(canUndo.value).toBe(false);
+
+    name.value = "John";
+    await nextTick();
+    vi.advanceTimersByTime(1000);
+    city.value = "Amsterdam";
+    await nextTick();
+    expect(canUndo.value).toBe(true);
+
+    undo();
+    await nextTick();
+    expect(city.value).toBe("");
+    expect(name.value).toBe("John");
+    expect(canRedo.value).toBe(true);
+
+    undo();
+    await nextTick();
+    expect(name.value).toBe("");
+    expect(canUndo.value).toBe(false);
+
+    redo();
+    redo();
+    await nextTick();
+    expect(name.value).toBe("John");
+    expect(city.value).toBe("Amsterdam");
+    expect(canRedo.value).toBe(false);
+  });
+
+  test("typing in a field is one entry", async () => {
+    const { name, city, undo, canUndo } = useForm(
+      { name: "", city: "" },
+      { history: true }
+    );
+    await type(name, "John");
+    await type(city, "Ams");
+
+    undo();
+    await nextTick();
+    expect(city.value).toBe("");
+    expect(name.value).toBe("John");
+
+    undo();
+    await nextTick();
+    expect(name.value).toBe("");
+    expect(canUndo.value).toBe(false);
+  });
+
+  test("a new change removes the entries to redo", async () => {
+    const { name, undo, canRedo } = useForm({ name: "" }, { history: true });
+    name.value = "John";
+    await nextTick();
+    undo();
+    await nextTick();
+    name.value = "Jane";
+    await nextTick();
+    expect(canRedo.value).toBe(false);
+  });
+
+  test("undo updates dirty and validation like setFields", async () => {
+    const { name, undo } = useForm(
+      { name: { value: "John", rules: [isRequired] } },
+      { history: true }
+    );
+    name.value = "";
+    await flushPromises();
+    expect(name.errors).toEqual(["required"]);
+
+    undo();
+    await flushPromises();
+    expect(name.value).toBe("John");
+    expect(name.errors).toEqual([]);
+    expect(name.dirty).toBe(false);
+  });
+
+  test("resetForm is one entry", async () => {
+    const { name, city, undo, resetForm } = useForm(
+      { name: "", city: "" },
+      { history: true }
+    );
+    await type(city, "Ams");
+    resetForm();
+    await nextTick();
+    expect(city.value).toBe("");
+
+    undo();
+    await nextTick();
+    expect(name.value).toBe("");
+    expect(city.value).toBe("Ams");
+  });
+
+  test("undo skips fields that were removed", async () => {
+    const { name, city, undo, removeField, formState } = useForm(
+      { name: "", city: "" },
+      { history: true }
+    );
+    name.value = "John";
+    await nextTick();
+    vi.advanceTimersByTime(1000);
+    city.value = "Amsterdam";
+    await nextTick();
+    removeField("city");
+
+    expect(() => undo()).not.toThrow();
+    undo();
+    await nextTick();
+    expect(name.value).toBe("");
+    expect(formState.value.fields).not.toHaveProperty("city");
+  });
+
+  test("adding and removing fields keeps undo and redo working", async () => {
+    const { name, undo, redo, addField, removeField, formState } = useForm(
+      { name: "", city: "" },
+      { history: true }
+    );
+    name.value = "John";
+    await nextTick();
+    vi.advanceTimersByTime(1000);
+    removeField("city");
+    const country = addField("country", "NL");
+    await nextTick();
+
+    undo();
+    await nextTick();
+    expect(name.value).toBe("");
+    expect(country.value).toBe("NL");
+    expect(formState.value.fields).not.toHaveProperty("city");
+
+    redo();
+    await nextTick();
+    expect(name.value).toBe("John");
+    expect(country.value).toBe("NL");
+  });
+
+  test("clearHistory removes all entries", async () => {
+    const { name, clearHistory, canUndo } = useForm(
+      { name: "" },
+      { history: true }
+    );
+    name.value = "John";
+    await nextTick();
+    clearHistory();
+    expect(canUndo.value).toBe(false);
+  });
+
+  test("doesn't record changes without the history option", async () => {
+    const { name, undo, canUndo } = useForm({ name: "" });
+    name.value = "John";
+    await nextTick();
+    expect(canUndo.value).toBe(false);
+    undo();
+    expect(name.value).toBe("John");
+  });
+});
@@ -0,0 +1,147 @@
+import { Ref, computed, markRaw, shallowRef, watch } from "vue";
+import { cloneDeep } from "../../utils/cloneDeep";
+import { deepEqual } from "../../utils/deepEqual";
+import { InternalFormState, formHistory, setFields } from "../useForm";
+
+export type HistoryOptions = {
+  /**
+   * Maximum number of entries that can be undone, defaults to 100
+   */
+  limit?: number;
+  /**
+   * Changes to the same field within this many milliseconds are one entry, defaults to 500
+   */
+  coalesce?: number;
+};
+
+type Snapshot = Record<string, unknown>;
+
+/**
+ * Records snapshots of the field values, so changes can be undone and redone.
+ * Undo and redo set the values with setFields, so dirty and validation state
+ * are updated like for any other change.
+ */
+export function createHistory<T extends Record<string, unknown>>(
+  formState: Ref<InternalFormState<T>>,
+  setValues: ReturnType<typeof setFields<T>>,
+  options: HistoryOptions | undefined
+) {
+  const limit = options?.limit ?? 100;
+  const coalesce = options?.coalesce ?? 500;
+
+  const past = shallowRef<Snapshot[]>([]);
+  const future = shallowRef<Snapshot[]>([]);
+
+  const snapshot = () =>
+    Object.fromEntries(
+      Object.values(formState.value.fields).map((field) => [
+        field.name,
+        cloneDeep(field.value),
+      ])
+    );
+  const changedFields = (from: Snapshot, to: Snapshot) =>
+    Object.keys(to).filter((name) => !deepEqual(from[name], to[name]));
+
+  let current = snapshot();
+  // the field that was changed last, to combine typing into one entry
+  let lastChange: { name: string; time: number } | undefined;
+
+  if (options) {
+    watch(
+      () => snapshot(),
+      (next) => {
+        const changed = changedFields(current, next);
+        // values set by undo and redo are already the current snapshot
+        if (!changed.length) {
+          return;
+        }
+        const now = Date.now();
+        const typing =
+          changed.length === 1 &&
+          lastChange?.name === changed[0] &&
+          now - lastChange.time < coalesce;
+        if (!typing) {
+          past.value = [...past.value, current].slice(-limit);
+        }
+        future.value = [];
+        current = next;
+        lastChange =
+          changed.length === 1 ? { name: changed[0], time: now } : undefined;
+      },
+      { deep: true }
+    );
+  }
+
+  const apply = (to: Snapshot) => {
+    const from = current;
+    current = to;
+    lastChange = undefined;
+    const values = Object.fromEntries(
+      changedFields(from, to)
+        // fields in the snapshot can be removed since
+        .filter((name) => name in formState.value.fields)
+        .map((name) => [name, cloneDeep(to[name])])
+    );
+    setValues(values as Parameters<typeof setValues>[0], { validate: true });
+  };
+
+  const undo = () => {
+    const previous = past.value[past.value.length - 1];
+    if (!previous) {
+      return;
+    }
+    past.value = past.value.slice(0, -1);
+    future.value = [...future.value, current];
+    apply(previous);
+  };
+
+  const redo = () => {
+    const next = future.value[future.value.length - 1];
+    if (!next) {
+      return;
+    }
+    future.value = future.value.slice(0, -1);
+    past.value = [...past.value, current];
+    apply(next);
+  };
+
+  const clearHistory = () => {
+    past.value = [];
+    future.value = [];
+    current = snapshot();
+    lastChange = undefined;
+  };
+
+  // added fields keep their value when undoing, removed fields are left out
+  const syncFields = () => {
+    const fields = snapshot();
+    const sync = (entry: Snapshot) =>
+      Object.fromEntries(
+        Object.keys(fields).map((name) => [
+          name,
+          name in entry ? entry[name] : cloneDeep(fields[name]),
+        ])
+      );
+    past.value = past.value.map(sync);
+    future.value = future.value.map(sync);
+    current = sync(current);
+    lastChange = undefined;
+  };
+
+  formState.value[formHistory] = markRaw({
+    // the next change starts a new entry, e.g. for resetForm
+    checkpoint: () => {
+      lastChange = undefined;
+    },
+    syncFields,
+    options,
+  });
+
+  return {
+    undo,
+    redo,
+    canUndo: computed(() => past.value.length > 0),
+    canRedo: computed(() => future.value.length > 0),
+    clearHistory,
+  };
+}
@@ -0,0 +1,138 @@
+import flushPromises from "flush-promises";
+import { afterEach, describe, expect, test } from "vitest";
+import { computed, ref } from "vue";
+import { useForm } from "../useForm";
+import { Messages, setMessages, validationError } from "./messages";
+import { minLength, required } from "./rules";
+
+describe("messages", () => {
+  afterEach(() => {
+    setMessages(undefined);
+  });
+
+  test("errors have a code, params and a default message", async () => {
+    const { name } = useForm({
+      name: { value: "", rules: [minLength(3)] },
+    });
+    name.value = "Jo";
+    await flushPromises();
+    expect(name.errors).toEqual([
+      {
+        code: "minLength",
+        params: { min: 3 },
+        message: "Must be at least 3 characters",
+      },
+    ]);
+  });
+
+  test("false is an invalid error", async () => {
+    const { name } = useForm({
+      name: { value: "", rules: [(value: string) => value.length > 2] },
+    });
+    name.value = "Jo";
+    await flushPromises();
+    expect(name.errors).toMatchObject([
+      { code: "invalid", message: "Not valid" },
+    ]);
+  });
+
+  test("messages of the form replace the global messages and fill in placeholders", async () => {
+    setMessages({ required: "Verplicht", minLength: "Minstens {min} tekens" });
+    const { name, city } = useForm(
+      {
+        name: { value: "x", label: "Naam", rules: [required(), minLength(3)] },
+        city: { value: "x", rules: [required()] },
+      },
+      { messages: { minLength: "{label} heeft minstens {min} tekens" } }
+    );
+    name.value = "Jo";
+    city.value = "";
+    await flushPromises();
+    expect(name.errors[0].message).toBe("Naam heeft minstens 3 tekens");
+    expect(city.errors[0].message).toBe("Verplicht");
+  });
+
+  test("a message of the rule goes first", async () => {
+    const { name } = useForm(
+      { name: { value: "x", rules: [minLength(3, "At least {min}")] } },
+      { messages: { minLength: "Minstens {min} tekens" } }
+    );
+    name.value = "Jo";
+    await flushPromises();
+    expect(name.errors[0].message).toBe("At least 3");
+  });
+
+  test("messages can be a translate function, e.g. of vue-i18n", async () => {
+    const translations: Record<string, string> = {
+      "errors.tooYoung": "Te jong",
+    };
+    const t = (key: string) => translations[key] ?? key;
+    const { age } = useForm(
+      {
+        age: {
+          value: 20,
+          rules: [
+            (value: number) => value >= 18 || validationError("tooYoung"),
+          ],
+        },
+      },
+      { messages: (code) => t(`errors.${code}`) }
+    );
+    age.value = 16;
+    await flushPromises();
+    expect(age.errors[0].message).toBe("Te jong");
+  });
+
+  test("switching messages updates errors without validating again", async () => {
+    const english: Messages = { required: "Required" };
+    const dutch: Messages = { required: "Verplicht" };
+    const messages = ref(english);
+    let validations = 0;
+    const { name } = useForm(
+      {
+        name: {
+          value: "x",
+          rules: [() => validations++ > 0 || undefined, required()],
+        },
+      },
+      { messages }
+    );
+    name.value = "";
+    await flushPromises();
+    const message = computed(() => name.errors[0]?.message);
+    expect(message.value).toBe("Required");
+
+    messages.value = dutch;
+    expect(message.value).toBe("Verplicht");
+    expect(validations).toBe(1);
+  });
+
+  test("a ref passed to setMessages switches the messages of errors", async () => {
+    const messages = ref<Messages>({ required: "Required" });
+    setMessages(messages);
+    const { name } = useForm({ name: { value: "x", rules: [required()] } });
+    name.value = "";
+    await flushPromises();
+    const message = computed(() => name.errors[0]?.message);
+    expect(message.value).toBe("Required");
+
+    messages.value = { required: "Verplicht" };
+    expect(message.value).toBe("Verplicht");
+  });
+
+  test("an error returned for several fields has the label of each field", async () => {
+    const error = validationError("required");
+    const { name, city } = useForm(
+      {
+        name: { value: "x", label: "Name", rules: [() => error] },
+        city: { value: "x", label: "City", rules: [() => error] },
+      },
+      { messages: { required: "{label} is required" } }
+    );
+    name.value = "";
+    city.value = "";
+    await flushPromises();
+    expect(name.errors[0].message).toBe("Name is required");
+    expect(city.errors[0].message).toBe("City is required");
+  });
+});
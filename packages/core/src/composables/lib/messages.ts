@@ -0,0 +1,145 @@
+import { shallowRef, unref } from "vue";
+import type { Ref } from "vue";
+
+export type MessageTemplate =
+  | string
+  | ((params: Record<string, unknown>) => string);
+
+/**
+ * Messages per error code, with {param} placeholders. Or a function that
+ * translates a code, e.g. with vue-i18n: (code, params) => t(`errors.${code}`, params)
+ */
+export type Messages =
+  | Record<string, MessageTemplate>
+  | ((code: string, params: Record<string, unknown>) => string | undefined);
+
+/**
+ * An error with a code and params. The message is looked up every time it is
+ * read, so a change of locale shows up without validating again.
+ */
+export type ValidationError = {
+  code: string;
+  params: Record<string, unknown>;
+  readonly message: string;
+};
+
+export type ErrorContext = {
+  messages?: () => Messages | undefined;
+  label?: string;
+};
+
+const errorContext = Symbol("errorContext");
+
+type InternalValidationError = ValidationError & {
+  [errorContext]?: ErrorContext;
+};
+
+const defaultMessages: Record<string, MessageTemplate> = {
+  invalid: "Not valid",
+  required: "Required",
+  minLength: "Must be at least {min} characters",
+  maxLength: "Must be at most {max} characters",
+  email: "Must be a valid email address",
+  pattern: "Has an invalid format",
+  min: "Must be at least {min}",
+  max: "Must be at most {max}",
+  sameAs: "Doesn't match",
+  oneOf: "Is not one of the allowed values",
+};
+
+const globalMessages = shallowRef<Messages | Ref<Messages | undefined>>();
+
+/**
+ * Sets the messages for all forms, the messages option of a form goes first. A ref
+ * is kept, so errors show the messages of a new locale without validating again.
+ *
+ * @param {Messages} messages - Messages per code, or a function that translates a code.
+ */
+export function setMessages(
+  messages: Messages | Ref<Messages | undefined> | undefined
+) {
+  globalMessages.value = messages;
+}
+
+/**
+ * Creates a structured error, return it from a rule. Without a message, the message
+ * is looked up by the code in the messages of the form, the global messages or the defaults.
+ *
+ * @param {string} code - The code of the error, e.g. the name of the rule.
+ * @param {} [params] - Values for the placeholders of the message.
+ * @param {MessageTemplate} [message] - A message that replaces the one of the code.
+ */
+export function validationError(
+  code: string,
+  params: Record<string, unknown> = {},
+  message?: MessageTemplate
+): ValidationError {
+  return {
+    code,
+    params,
+    get message() {
+      const context = (this as InternalValidationError)[errorContext];
+      const allParams = { label: context?.label, ...params };
+      return (
+        (message && format(message, allParams)) ??
+        translate(context?.messages?.(), code, allParams) ??
+        translate(unref(globalMessages.value), code, allParams) ??
+        translate(defaultMessages, code, allParams) ??
+        code
+      );
+    },
+  };
+}
+
+export function isValidationError(value: unknown): value is ValidationError {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "code" in value &&
+    "params" in value &&
+    "message" in value
+  );
+}
+
+/**
+ * Gives an error the messages of the form and the label of the field it belongs to.
+ * The error is copied, so an error that is returned for several fields gets the label
+ * of each field.
+ */
+export function withErrorContext(error: unknown, context: ErrorContext) {
+  if (!isValidationError(error)) {
+    return error;
+  }
+  const copy: InternalValidationError = Object.create(
+    Object.getPrototypeOf(error),
+    Object.getOwnPropertyDescriptors(error)
+  );
+  // not enumerable, so errors can still be compared and serialized
+  Object.defineProperty(copy, errorContext, {
+    value: context,
+    configurable: true,
+  });
+  return copy;
+}
+
+function translate(
+  messages: Messages | undefined,
+  code: string,
+  params: Record<string, unknown>
+) {
+  if (!messages) {
+    return undefined;
+  }
+  const template =
+    typeof messages === "function" ? messages(code, params) : messages[code];
+  return template === undefined ? undefined : format(template, params);
+}
+
+function format(template: MessageTemplate, params: Record<string, unknown>) {
+  if (typeof template === "function") {
+    return template(params);
+  }
+  return template.replace(/\{(\w+)\}/g, (placeholder, key: string) =>
+    params[key] === undefined ? placeholder : String(params[key])
+  );
+}
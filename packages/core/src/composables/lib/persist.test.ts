@@ -0,0 +1,143 @@
+import flushPromises from "flush-promises";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { useForm } from "../useForm";
+import { PersistStorage } from "./persist";
+
+const createStorage = (): PersistStorage & { items: Map<string, string> } => {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: (key) => void items.delete(key),
+  };
+};
+
+const saved = (storage: ReturnType<typeof createStorage>, key = "signup") =>
+  JSON.parse(storage.items.get(`formstate:${key}`) ?? "null");
+
+describe("persist", () => {
+  let storage: ReturnType<typeof createStorage>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    storage = createStorage();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("saves the values after the debounce time", async () => {
+    const { name, address } = useForm(
+      { name: "", address: { city: "" }, password: "" },
+      { persist: { key: "signup", storage, exclude: ["password"] } }
+    );
+    name.value = "John";
+    address.city.value = "Amsterdam";
+    await vi.advanceTimersByTimeAsync(100);
+    expect(saved(storage)).toBeNull();
+
+    await vi.advanceTimersByTimeAsync(300);
+    expect(saved(storage)).toEqual({
+      version: 0,
+      values: { name: "John", address: { city: "Amsterdam" } },
+    });
+  });
+
+  test("restores the values when the form is created", () => {
+    storage.setItem(
+      "formstate:signup",
+      JSON.stringify({ version: 0, values: { name: "John", password: "secret" } })
+    );
+    const { name, password, formState } = useForm(
+      "signup",
+      { name: "", password: "" },
+      { persist: { storage, exclude: ["password"] } }
+    );
+    expect(name.value).toBe("John");
+    expect(password.value).toBe("");
+    expect(formState.value.valid).toBe(true);
+  });
+
+  test("restores touched and dirty when they are saved", async () => {
+    const options = { key: "signup", storage, touched: true, dirty: true };
+    const first = useForm({ name: "", email: "" }, { persist: options });
+    first.name.value = "John";
+    first.email.blur({} as FocusEvent);
+    await vi.advanceTimersByTimeAsync(300);
+
+    const { name, email, formState } = useForm(
+      { name: "", email: "" },
+      { persist: options }
+    );
+    expect(name.dirty).toBe(true);
+    expect(email.touched).toBe(true);
+    expect(formState.value.touched).toBe(true);
+  });
+
+  test("migrates values of another version", () => {
+    storage.setItem(
+      "formstate:signup",
+      JSON.stringify({ version: 1, values: { fullName: "John" } })
+    );
+    const migrate = vi.fn((values: any) => ({ name: values.fullName }));
+    const { name } = useForm(
+      { name: "" },
+      { persist: { key: "signup", storage, version: 2, migrate } }
+    );
+    expect(migrate).toHaveBeenCalledWith({ fullName: "John" }, 1);
+    expect(name.value).toBe("John");
+  });
+
+  test("throws away values of another version without migrate", () => {
+    storage.setItem(
+      "formstate:signup",
+      JSON.stringify({ version: 1, values: { name: "John" } })
+    );
+    const { name } = useForm(
+      { name: "" },
+      { persist: { key: "signup", storage, version: 2 } }
+    );
+    expect(name.value).toBe("");
+    expect(saved(storage)).toBeNull();
+  });
+
+  test("removes the saved form on resetForm", async () => {
+    const { name, resetForm } = useForm(
+      { name: "" },
+      { persist: { key: "signup", storage } }
+    );
+    name.value = "John";
+    await vi.advanceTimersByTimeAsync(300);
+    expect(saved(storage)).not.toBeNull();
+
+    resetForm();
+    await vi.advanceTimersByTimeAsync(300);
+    expect(saved(storage)).toBeNull();
+  });
+
+  test("removes the saved form after a successful submit", async () => {
+    const { name, handleSubmit } = useForm(
+      { name: "" },
+      { persist: { key: "signup", storage } }
+    );
+    name.value = "John";
+    await vi.advanceTimersByTimeAsync(300);
+
+    await handleSubmit(() => {
+      throw new Error("server error");
+    })();
+    expect(saved(storage)).not.toBeNull();
+
+    await handleSubmit(() => {})();
+    await flushPromises();
+    expect(saved(storage)).toBeNull();
+  });
+
+  test("throws without a name or key", () => {
+    expect(() => useForm({ name: "" }, { persist: { storage } })).toThrowError(
+      "UseForm: persist needs a form name or a key to save the form."
+    );
+  });
+});
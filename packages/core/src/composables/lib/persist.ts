@@ -0,0 +1,179 @@
+import { Ref, getCurrentScope, markRaw, onScopeDispose, watch } from "vue";
+import { cloneDeep } from "../../utils/cloneDeep";
+import { getPath, setPath } from "../../utils/path";
+import { collectDirty } from "./createFields";
+import {
+  DeepPartial,
+  FieldPath,
+  InternalFormState,
+  fieldPrevValue,
+  formPersist,
+} from "../useForm";
+
+/**
+ * Where the form is saved. localStorage and sessionStorage can be used directly.
+ */
+export type PersistStorage = Pick<Storage, "getItem" | "setItem" | "removeItem">;
+
+export type PersistOptions<T extends Record<string, unknown>> = {
+  /**
+   * The key in the storage, defaults to the name of the form
+   */
+  key?: string;
+  /**
+   * Defaults to localStorage
+   */
+  storage?: PersistStorage;
+  /**
+   * Saved values with another version are passed to migrate, or thrown away without migrate
+   */
+  version?: number;
+  migrate?: (values: unknown, version: number) => DeepPartial<T> | undefined;
+  /**
+   * Milliseconds to wait after a change before saving, defaults to 300
+   */
+  debounce?: number;
+  /**
+   * Fields that are never saved, like passwords
+   */
+  exclude?: FieldPath<T>[];
+  /**
+   * Also save which fields are touched
+   */
+  touched?: boolean;
+  /**
+   * Also save which fields are dirty
+   */
+  dirty?: boolean;
+};
+
+type PersistedForm = {
+  version: number;
+  values: Record<string, unknown>;
+  touched?: string[];
+  dirty?: string[];
+};
+
+const defaultStorage = () =>
+  typeof localStorage === "undefined" ? undefined : localStorage;
+
+/**
+ * Restores the form from storage and saves it again on every change. The
+ * saved form is removed when the form is reset or submitted successfully.
+ */
+export function persistForm<T extends Record<string, unknown>>(
+  formState: Ref<InternalFormState<T>>,
+  formName: string | undefined,
+  options: PersistOptions<T>
+) {
+  const storage = options.storage ?? defaultStorage();
+  if (!storage) {
+    return;
+  }
+  const name = options.key ?? formName;
+  if (!name) {
+    throw new Error(
+      "UseForm: persist needs a form name or a key to save the form."
+    );
+  }
+  const key = `formstate:${name}`;
+  const version = options.version ?? 0;
+  const fields = () =>
+    Object.values(formState.value.fields).filter(
+      (field) =>
+        !options.exclude?.some(
+          (exclude) =>
+            field.name === exclude || field.name.startsWith(`${exclude}.`)
+        )
+    );
+
+  const restore = () => {
+    const persisted = read(storage, key);
+    if (!persisted) {
+      return;
+    }
+    let values: unknown = persisted.values;
+    if (persisted.version !== version) {
+      values = options.migrate?.(persisted.values, persisted.version);
+      if (!values) {
+        storage.removeItem(key);
+        return;
+      }
+    }
+    for (const field of fields()) {
+      const value = getPath(values, field.name);
+      if (value !== undefined) {
+        field.value = cloneDeep(value);
+        field[fieldPrevValue] = cloneDeep(value);
+      }
+      if (options.touched && persisted.touched?.includes(field.name)) {
+        field.touched = true;
+        formState.value.touched = true;
+      }
+      if (options.dirty && persisted.dirty?.includes(field.name)) {
+        field.dirty = true;
+      }
+    }
+    collectDirty(formState);
+  };
+
+  const save = () => {
+    if (!formState.value.dirty && !formState.value.touched) {
+      storage.removeItem(key);
+      return;
+    }
+    const persisted: PersistedForm = { version, values: {} };
+    for (const field of fields()) {
+      setPath(persisted.values, field.name, cloneDeep(field.value));
+    }
+    if (options.touched) {
+      persisted.touched = fields()
+        .filter((field) => field.touched)
+        .map((field) => field.name);
+    }
+    if (options.dirty) {
+      persisted.dirty = fields()
+        .filter((field) => field.dirty)
+        .map((field) => field.name);
+    }
+    storage.setItem(key, JSON.stringify(persisted));
+  };
+
+  let timeout: ReturnType<typeof setTimeout> | undefined;
+  const cancel = () => {
+    clearTimeout(timeout);
+    timeout = undefined;
+  };
+
+  restore();
+
+  watch(
+    () =>
+      fields().map((field) => [field.value, field.touched, field.dirty]),
+    () => {
+      cancel();
+      timeout = setTimeout(save, options.debounce ?? 300);
+    },
+    { deep: true }
+  );
+
+  if (getCurrentScope()) {
+    onScopeDispose(cancel);
+  }
+
+  formState.value[formPersist] = markRaw({
+    clear: () => {
+      cancel();
+      storage.removeItem(key);
+    },
+  });
+}
+
+function read(storage: PersistStorage, key: string) {
+  try {
+    const item = storage.getItem(key);
+    return item ? (JSON.parse(item) as PersistedForm) : undefined;
+  } catch {
+    return undefined;
+  }
+}
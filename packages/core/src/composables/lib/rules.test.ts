@@ -0,0 +1,110 @@
+import flushPromises from "flush-promises";
+import { describe, expect, test } from "vitest";
+import { useForm } from "../useForm";
+import {
+  email,
+  max,
+  maxLength,
+  min,
+  minLength,
+  oneOf,
+  pattern,
+  required,
+  sameAs,
+} from "./rules";
+import { toNumber } from "./transforms";
+
+const signal = new AbortController().signal;
+// the message of the error, or true when the value is valid
+const check = (rule: { rule: (...args: any[]) => any }, value: unknown) => {
+  const result = rule.rule(value, "field", { value: { fields: {} } }, signal);
+  return result === true ? true : result.message;
+};
+
+describe("rules", () => {
+  test("required", () => {
+    expect(check(required(), "a")).toBe(true);
+    expect(check(required(), "")).toBe("Required");
+    expect(check(required(), [])).toBe("Required");
+    expect(check(required(), false)).toBe("Required");
+    expect(check(required("Fill in your name"), null)).toBe(
+      "Fill in your name"
+    );
+    expect(check(required(), NaN)).toBe("Required");
+    expect(check(required(), new Date(""))).toBe("Required");
+    expect(check(required(), 0)).toBe(true);
+  });
+
+  test("required rejects a cleared number input", async () => {
+    const { age } = useForm({
+      age: { value: 18, ...toNumber, rules: [required()] },
+    });
+    age.displayValue = "";
+    await flushPromises();
+    expect(age.valid).toBe(false);
+  });
+
+  test("other rules leave empty values to required", () => {
+    for (const rule of [minLength(3), email(), min(1), oneOf(["a"])]) {
+      expect(check(rule, "")).toBe(true);
+      expect(check(rule, undefined)).toBe(true);
+    }
+  });
+
+  test("minLength and maxLength", () => {
+    expect(check(minLength(3), "ab")).toBe("Must be at least 3 characters");
+    expect(check(minLength(3), "abc")).toBe(true);
+    expect(check(maxLength(2), ["a", "b", "c"])).toBe(
+      "Must be at most 2 characters"
+    );
+  });
+
+  test("email and pattern", () => {
+    expect(check(email(), "john@example.com")).toBe(true);
+    expect(check(email(), "john@")).toBe("Must be a valid email address");
+    const zipcode = pattern(/^\d{4}[A-Z]{2}$/g, "Invalid zipcode");
+    expect(check(zipcode, "1234AB")).toBe(true);
+    expect(check(zipcode, "1234AB")).toBe(true);
+    expect(check(zipcode, "1234")).toBe("Invalid zipcode");
+  });
+
+  test("min, max and oneOf", () => {
+    expect(check(min(18), 17)).toBe("Must be at least 18");
+    expect(check(max(10), "9")).toBe(true);
+    expect(check(oneOf(["red", "blue"]), "green")).toBe(
+      "Is not one of the allowed values"
+    );
+  });
+
+  test("sameAs compares with the other field and depends on it", async () => {
+    const { password, confirm } = useForm({
+      password: "secret",
+      confirm: { value: "", rules: [sameAs("password", "Passwords differ")] },
+    });
+    confirm.value = "secre";
+    await flushPromises();
+    expect(confirm.errors).toMatchObject([
+      {
+        code: "sameAs",
+        params: { field: "password" },
+        message: "Passwords differ",
+      },
+    ]);
+
+    password.value = "secre";
+    await flushPromises();
+    expect(confirm.errors).toEqual([]);
+  });
+
+  test("rules carry their name and params", () => {
+    const { name } = useForm({
+      name: { value: "", rules: [required(), maxLength(20)] },
+    });
+    expect(name.rules).toMatchObject([
+      { name: "required", required: true },
+      { name: "maxLength", params: { max: 20 } },
+    ]);
+    type Form = { password: string; confirm: string };
+    expect(sameAs<Form>("password").params).toEqual({ field: "password" });
+  });
+});
@@ -0,0 +1,182 @@
+import { getPath } from "../../utils/path";
+import { deepEqual } from "../../utils/deepEqual";
+import { FieldPath, Rule, getValues } from "../useForm";
+import { MessageTemplate, ValidationError, validationError } from "./messages";
+
+/**
+ * A built-in rule, with its name and params to read them back from field.rules.
+ * Without deps in the type, the rule fits any form.
+ */
+export type NamedRule<
+  V,
+  T extends Record<string, unknown>,
+  N extends string,
+  P extends Record<string, unknown>
+> = Omit<Rule<V, T, ValidationError>, "deps"> & { name: N; params: P };
+
+// NaN and invalid dates are what toNumber and toDate make of a cleared input
+const isEmpty = (value: unknown) =>
+  value === undefined ||
+  value === null ||
+  value === "" ||
+  Number.isNaN(value) ||
+  (value instanceof Date && Number.isNaN(value.getTime())) ||
+  (Array.isArray(value) && value.length === 0);
+
+const lengthOf = (value: unknown) =>
+  typeof value === "string" || Array.isArray(value) ? value.length : 0;
+
+// the other rules leave empty values to required. Errors get the name of the
+// rule as code, the message can be replaced per rule or with the messages option.
+function namedRule<
+  V,
+  T extends Record<string, unknown>,
+  N extends string,
+  P extends Record<string, unknown>
+>(
+  name: N,
+  params: P,
+  valid: (value: V) => boolean,
+  message: MessageTemplate | undefined
+): NamedRule<V, T, N, P> {
+  return {
+    name,
+    params,
+    rule: (value) =>
+      isEmpty(value) || valid(value) || validationError(name, params, message),
+  };
+}
+
+/**
+ * The value can't be empty: undefined, null, "", false or []
+ */
+export function required<V = any, T extends Record<string, unknown> = any>(
+  message?: MessageTemplate
+): NamedRule<V, T, "required", {}> {
+  return {
+    name: "required",
+    params: {},
+    required: true,
+    rule: (value) =>
+      (!isEmpty(value) && value !== false) ||
+      validationError("required", {}, message),
+  };
+}
+
+export function minLength<V = any, T extends Record<string, unknown> = any>(
+  min: number,
+  message?: MessageTemplate
+) {
+  return namedRule<V, T, "minLength", { min: number }>(
+    "minLength",
+    { min },
+    (value) => lengthOf(value) >= min,
+    message
+  );
+}
+
+export function maxLength<V = any, T extends Record<string, unknown> = any>(
+  max: number,
+  message?: MessageTemplate
+) {
+  return namedRule<V, T, "maxLength", { max: number }>(
+    "maxLength",
+    { max },
+    (value) => lengthOf(value) <= max,
+    message
+  );
+}
+
+const emailPattern = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function email<V = any, T extends Record<string, unknown> = any>(
+  message?: MessageTemplate
+) {
+  return namedRule<V, T, "email", {}>(
+    "email",
+    {},
+    (value) => emailPattern.test(String(value)),
+    message
+  );
+}
+
+export function pattern<V = any, T extends Record<string, unknown> = any>(
+  regex: RegExp,
+  message?: MessageTemplate
+) {
+  return namedRule<V, T, "pattern", { pattern: RegExp }>(
+    "pattern",
+    { pattern: regex },
+    (value) => {
+      // a global regex remembers where the last match ended
+      regex.lastIndex = 0;
+      return regex.test(String(value));
+    },
+    message
+  );
+}
+
+export function min<V = any, T extends Record<string, unknown> = any>(
+  min: number,
+  message?: MessageTemplate
+) {
+  return namedRule<V, T, "min", { min: number }>(
+    "min",
+    { min },
+    (value) => Number(value) >= min,
+    message
+  );
+}
+
+export function max<V = any, T extends Record<string, unknown> = any>(
+  max: number,
+  message?: MessageTemplate
+) {
+  return namedRule<V, T, "max", { max: number }>(
+    "max",
+    { max },
+    (value) => Number(value) <= max,
+    message
+  );
+}
+
+/**
+ * The value has to equal the value of another field, e.g. a password confirmation.
+ * The field is validated again when the other field changes.
+ */
+export function sameAs(
+  field: string,
+  message?: MessageTemplate
+): NamedRule<any, any, "sameAs", { field: string }>;
+/**
+ * Checks the name of the other field, with the type of the form: sameAs<Form>("password")
+ */
+export function sameAs<T extends Record<string, unknown>, V = any>(
+  field: FieldPath<T>,
+  message?: MessageTemplate
+): NamedRule<V, T, "sameAs", { field: FieldPath<T> }>;
+
+export function sameAs(
+  field: string,
+  message?: MessageTemplate
+): NamedRule<unknown, Record<string, unknown>, "sameAs", { field: string }> {
+  const rule: Rule<unknown, Record<string, unknown>> = {
+    deps: [field],
+    rule: (value, _fieldName, formState) =>
+      deepEqual(value, getPath(getValues(formState), field)) ||
+      validationError("sameAs", { field }, message),
+  };
+  return { ...rule, name: "sameAs", params: { field } };
+}
+
+export function oneOf<V = any, T extends Record<string, unknown> = any>(
+  values: readonly V[],
+  message?: MessageTemplate
+) {
+  return namedRule<V, T, "oneOf", { values: readonly V[] }>(
+    "oneOf",
+    { values },
+    (value) => values.some((allowed) => deepEqual(allowed, value)),
+    message
+  );
+}
@@ -0,0 +1,238 @@
+import flushPromises from "flush-promises";
+import { describe, expect, expectTypeOf, test, vi } from "vitest";
+import { nextTick } from "vue";
+import { useForm } from "../useForm";
+import {
+  StandardSchemaV1,
+  createSchemaValidator,
+  issuePath,
+} from "./schema";
+
+type Signup = { name: string; age: string; address: { city: string } };
+
+// a tiny Standard Schema, which trims the name and turns age into a number
+const signupSchema = {
+  "~standard": {
+    version: 1,
+    vendor: "test",
+    validate: vi.fn((value: unknown) => {
+      const { name, age, address, password, repeat } = value as Signup & {
+        password?: string;
+        repeat?: string;
+      };
+      const issues = [];
+      if (!name) {
+        issues.push({ message: "name is required", path: ["name"] });
+      }
+      if (!address.city) {
+        issues.push({
+          message: "city is required",
+          path: [{ key: "address" }, { key: "city" }],
+        });
+      }
+      if (password !== repeat) {
+        issues.push({ message: "passwords don't match" });
+      }
+      if (issues.length) {
+        return { issues };
+      }
+      return { value: { name: name.trim(), age: Number(age), address } };
+    }),
+  },
+} satisfies StandardSchemaV1<unknown, { name: string; age: number }>;
+
+describe("schema", () => {
+  test("issuePath joins path segments", () => {
+    expect(issuePath({ message: "", path: ["a", 0, { key: "b" }] })).toBe(
+      "a.0.b"
+    );
+    expect(issuePath({ message: "" })).toBe("");
+  });
+
+  test("createSchemaValidator reuses the result for the same values", async () => {
+    signupSchema["~standard"].validate.mockClear();
+    const validate = createSchemaValidator(signupSchema);
+    const values = { name: "", age: "1", address: { city: "" } };
+    await validate(values);
+    await validate({ ...values });
+    expect(signupSchema["~standard"].validate).toHaveBeenCalledTimes(1);
+    expect(await validate({ ...values, name: "John" })).toEqual({
+      issues: [{ path: "address.city", message: "city is required" }],
+    });
+  });
+
+  test("maps issues to fields and the form", async () => {
+    const { name, address, formState, validateForm } = useForm(
+      {
+        name: "",
+        age: "30",
+        address: { city: "" },
+        password: "a",
+        repeat: "b",
+      },
+      { schema: signupSchema }
+    );
+    const result = await validateForm();
+    expect(result.valid).toBe(false);
+    expect(result.output).toBeUndefined();
+    expect(name.errors).toEqual(["name is required"]);
+    expect(address.city.errors).toEqual(["city is required"]);
+    expect(formState.value.errorFields).toEqual({
+      name: ["name is required"],
+      "address.city": ["city is required"],
+    });
+    expect(formState.value.errors).toContain("passwords don't match");
+  });
+
+  test("validates fields on change", async () => {
+    const { name } = useForm(
+      { name: "John", age: "30", address: { city: "Amsterdam" } },
+      { schema: signupSchema }
+    );
+    name.value = "";
+    await nextTick();
+    await flushPromises();
+    expect(name.errors).toEqual(["name is required"]);
+  });
+
+  test("validateForm returns the output of the schema", async () => {
+    const { validateForm } = useForm(
+      { name: " John ", age: "30", address: { city: "Amsterdam" } },
+      { schema: signupSchema }
+    );
+    const result = await validateForm();
+    expect(result.valid).toBe(true);
+    expect(result.output).toEqual({
+      name: "John",
+      age: 30,
+      address: { city: "Amsterdam" },
+    });
+  });
+
+  test("handleSubmit passes the output of the schema", async () => {
+    type Output = { name: string; age: number; address: { city: string } };
+    const { handleSubmit } = useForm(
+      { name: " John ", age: "30", address: { city: "Amsterdam" } },
+      { schema: signupSchema as StandardSchemaV1<unknown, Output> }
+    );
+    const onValid = vi.fn();
+    await handleSubmit((values) => {
+      expectTypeOf(values).toEqualTypeOf<Output>();
+      onValid(values);
+    })();
+    expect(onValid).toHaveBeenCalledWith({
+      name: "John",
+      age: 30,
+      address: { city: "Amsterdam" },
+    });
+  });
+
+  test("schema rules work together with field rules", async () => {
+    const { name, validateForm } = useForm(
+      {
+        name: { value: "", rules: [() => "other error"] },
+        age: "30",
+        address: { city: "Amsterdam" },
+      },
+      { schema: signupSchema }
+    );
+    await validateForm();
+    expect(name.errors).toEqual(["name is required", "other error"]);
+  });
+
+  test("setRules keeps the schema rule", async () => {
+    const { name, setRules, validateForm } = useForm(
+      { name: "", age: "30", address: { city: "Amsterdam" } },
+      { schema: signupSchema }
+    );
+    setRules({ name: [() => "other error"] });
+    const result = await validateForm();
+    expect(result.valid).toBe(false);
+    expect(result.output).toBeUndefined();
+    expect(name.errors).toEqual(["name is required", "other error"]);
+
+    setRules({ name: [] });
+    await validateForm();
+    expect(name.errors).toEqual(["name is required"]);
+  });
+
+  test("disabled fields are left out of the values of the schema", async () => {
+    type Company = { name: string; company?: string };
+    // requires the company when it is in the values
+    const companySchema: StandardSchemaV1<unknown, Company> = {
+      "~standard": {
+        version: 1,
+        vendor: "test",
+        validate: (value) => {
+          const { company } = value as Company;
+          return company === ""
+            ? {
+                issues: [{ message: "company is required", path: ["company"] }],
+              }
+            : { value: value as Company };
+        },
+      },
+    };
+    const { company, handleSubmit } = useForm(
+      { name: "a", company: { value: "", disabled: true } },
+      { schema: companySchema }
+    );
+    const onValid = vi.fn();
+    await handleSubmit(onValid)();
+    expect(onValid).toHaveBeenCalledWith({ name: "a" }, expect.anything());
+
+    company.disabled = false;
+    await flushPromises();
+    const onInvalid = vi.fn();
+    await handleSubmit(onValid, onInvalid)();
+    expect(onInvalid).toHaveBeenCalled();
+    expect(company.errors).toEqual(["company is required"]);
+  });
+
+  test("issues of disabled fields keep the form invalid", async () => {
+    const alwaysCompany: StandardSchemaV1<unknown, { company: string }> = {
+      "~standard": {
+        version: 1,
+        vendor: "test",
+        validate: () => ({
+          issues: [{ message: "company is required", path: ["company"] }],
+        }),
+      },
+    };
+    const { company, handleSubmit, formState } = useForm(
+      { name: "a", company: { value: "", disabled: true } },
+      { schema: alwaysCompany }
+    );
+    const onValid = vi.fn();
+    const onInvalid = vi.fn();
+    await handleSubmit(onValid, onInvalid)();
+    expect(onValid).not.toHaveBeenCalled();
+    expect(onInvalid).toHaveBeenCalled();
+    expect(company.errors).toEqual([]);
+    expect(formState.value.errors).toEqual(["company is required"]);
+  });
+
+  test("setRules keeps the form rule of the schema", async () => {
+    const { setRules, validateForm, formState } = useForm(
+      {
+        name: "John",
+        age: "30",
+        address: { city: "Amsterdam" },
+        password: "a",
+        repeat: "b",
+      },
+      { schema: signupSchema }
+    );
+    setRules({ formRules: [() => "other error"] });
+    const result = await validateForm();
+    expect(result.valid).toBe(false);
+    expect(formState.value.errors).toEqual([
+      "passwords don't match",
+      "other error",
+    ]);
+
+    setRules({ formRules: [] });
+    expect((await validateForm()).valid).toBe(false);
+    expect(formState.value.errors).toEqual(["passwords don't match"]);
+  });
+});
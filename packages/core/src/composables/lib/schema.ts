@@ -0,0 +1,139 @@
+import { Ref } from "vue";
+import { cloneDeep } from "../../utils/cloneDeep";
+import { deepEqual } from "../../utils/deepEqual";
+import {
+  Field,
+  FormRule,
+  InternalFormState,
+  Rule,
+  fieldSchemaRule,
+  formSchema,
+  formSchemaRule,
+  getSubmitValues,
+} from "../useForm";
+
+/**
+ * The Standard Schema interface (https://standardschema.dev), implemented by
+ * zod, valibot, arktype and others. Use the adapters for libraries or versions that
+ * don't implement it.
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown
+    ) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output };
+  };
+}
+
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaIssue> };
+
+export type StandardSchemaIssue = {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+};
+
+export type SchemaValidationResult<O> = {
+  output?: O;
+  issues: { path: string; message: string }[];
+};
+
+export function issuePath(issue: StandardSchemaIssue) {
+  return (issue.path ?? [])
+    .map((segment) =>
+      String(typeof segment === "object" ? segment.key : segment)
+    )
+    .join(".");
+}
+
+const pathMatches = (path: string, fieldName: string) =>
+  path === fieldName || path.startsWith(`${fieldName}.`);
+
+/**
+ * Validates values with a schema. The last result is reused as long as the
+ * values don't change, so the schema runs once when all fields are validated.
+ */
+export function createSchemaValidator<O>(schema: StandardSchemaV1<unknown, O>) {
+  let last: { input: unknown; result: Promise<SchemaValidationResult<O>> };
+
+  return (values: unknown) => {
+    if (last && deepEqual(last.input, values)) {
+      return last.result;
+    }
+    const input = cloneDeep(values);
+    const result = Promise.resolve(
+      schema["~standard"].validate(cloneDeep(input))
+    ).then((result) => {
+      if (result.issues) {
+        return {
+          issues: result.issues.map((issue) => ({
+            path: issuePath(issue),
+            message: issue.message,
+          })),
+        };
+      }
+      return { output: result.value, issues: [] };
+    });
+    last = { input, result };
+    return result;
+  };
+}
+
+/**
+ * A rule that returns the issues of the schema for the path of the field
+ */
+export function createSchemaFieldRule<T extends Record<string, unknown>>(
+  validate: (values: unknown) => Promise<SchemaValidationResult<unknown>>
+): Rule<T[keyof T], T> {
+  return {
+    rule: async (_value, fieldName, formState) => {
+      const { issues } = await validate(getSubmitValues(formState));
+      return issues
+        .filter((issue) => pathMatches(issue.path, fieldName))
+        .map((issue) => issue.message);
+    },
+  };
+}
+
+/**
+ * Derives a rule for every field from the schema, and a form rule for issues
+ * that don't belong to a field (e.g. refinements on the complete object).
+ * Like on submit, disabled fields are left out of the values.
+ */
+export function applySchema<T extends Record<string, unknown>, O>(
+  formState: Ref<InternalFormState<T>>,
+  schema: StandardSchemaV1<unknown, O>
+) {
+  const validate = createSchemaValidator(schema);
+  formState.value[formSchema] = validate;
+
+  const fieldRule = createSchemaFieldRule<T>(validate);
+
+  const formRule: FormRule<T> = {
+    rule: async (formState) => {
+      const { issues } = await validate(getSubmitValues(formState));
+      // issues of disabled fields stay on the form, the schema doesn't accept the values without them
+      const fields = formState.value.fields as Record<
+        string,
+        Field<unknown, T>
+      >;
+      const fieldNames = Object.entries(fields)
+        .filter(([, field]) => !field.disabled)
+        .map(([name]) => name);
+      return issues
+        .filter(
+          (issue) => !fieldNames.some((name) => pathMatches(issue.path, name))
+        )
+        .map((issue) => issue.message);
+    },
+  };
+
+  for (const field of Object.values(formState.value.fields)) {
+    field[fieldSchemaRule] = fieldRule;
+  }
+  formState.value[formSchemaRule] = formRule;
+}
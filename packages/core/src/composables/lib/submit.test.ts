@@ -0,0 +1,151 @@
+import flushPromises from "flush-promises";
+import { describe, expect, expectTypeOf, test, vi } from "vitest";
+import { useForm } from "../useForm";
+
+const isRequired = (value: string) => (value === "" ? "required" : true);
+
+describe("handleSubmit", () => {
+  test("calls onValid with the values when the form is valid", async () => {
+    const { handleSubmit, formState } = useForm({ someInput: "hello" });
+    const onValid = vi.fn();
+    const onInvalid = vi.fn();
+    await handleSubmit(onValid, onInvalid)();
+
+    expect(onValid).toHaveBeenCalledWith(
+      { someInput: "hello" },
+      {
+        valid: true,
+        errors: [],
+        errorFields: {},
+        warnings: [],
+        warningFields: {},
+        ruleResults: {},
+      }
+    );
+    expect(onInvalid).not.toHaveBeenCalled();
+    expect(formState.value.submitted).toBe(true);
+    expect(formState.value.submitCount).toBe(1);
+  });
+
+  test("calls onInvalid when the form is invalid", async () => {
+    const { handleSubmit } = useForm({
+      someInput: { value: "", rules: [isRequired] },
+    });
+    const onValid = vi.fn();
+    const onInvalid = vi.fn();
+    await handleSubmit(onValid, onInvalid)();
+
+    expect(onValid).not.toHaveBeenCalled();
+    expect(onInvalid).toHaveBeenCalledWith({
+      valid: false,
+      errors: ["required"],
+      errorFields: { someInput: ["required"] },
+      warnings: [],
+      warningFields: {},
+      ruleResults: {},
+    });
+  });
+
+  test("waits for async rules before submitting", async () => {
+    const { handleSubmit } = useForm({
+      someInput: { value: "", rules: [async () => "async error"] },
+    });
+    const onValid = vi.fn();
+    await handleSubmit(onValid)();
+    expect(onValid).not.toHaveBeenCalled();
+  });
+
+  test("prevents the default submit event", async () => {
+    const { handleSubmit } = useForm({ someInput: "hello" });
+    const evt = { preventDefault: vi.fn() } as unknown as Event;
+    await handleSubmit(() => {})(evt);
+    expect(evt.preventDefault).toHaveBeenCalled();
+  });
+
+  test("sets submitting while submitting and ignores double submits", async () => {
+    const { handleSubmit, formState } = useForm({ someInput: "hello" });
+    let resolve = () => {};
+    const onValid = vi.fn(() => new Promise<void>((r) => (resolve = r)));
+    const submit = handleSubmit(onValid);
+
+    const first = submit();
+    await flushPromises();
+    expect(formState.value.submitting).toBe(true);
+    await submit();
+    expect(onValid).toHaveBeenCalledTimes(1);
+
+    resolve();
+    await first;
+    expect(formState.value.submitting).toBe(false);
+    expect(formState.value.submitCount).toBe(1);
+  });
+
+  test("catches errors of the submit handler in submitError", async () => {
+    const { handleSubmit, formState } = useForm({ someInput: "hello" });
+    const error = new Error("server error");
+    await handleSubmit(async () => {
+      throw error;
+    })();
+    expect(formState.value.submitError).toBe(error);
+    expect(formState.value.submitting).toBe(false);
+
+    await handleSubmit(() => {})();
+    expect(formState.value.submitError).toBeUndefined();
+    expect(formState.value.submitCount).toBe(2);
+  });
+
+  test("validates a form that was reset without changing a value", async () => {
+    const { handleSubmit, formState, resetForm, name } = useForm({
+      name: { value: "", rules: [isRequired] },
+    });
+    resetForm();
+    const onValid = vi.fn();
+    const onInvalid = vi.fn();
+    await handleSubmit(onValid, onInvalid)();
+
+    expect(onValid).not.toHaveBeenCalled();
+    expect(onInvalid).toHaveBeenCalled();
+    expect(name.errors).toEqual(["required"]);
+    expect(formState.value.valid).toBe(false);
+  });
+
+  test("a change after a reset without changes is validated", async () => {
+    const { resetForm, name } = useForm({
+      name: { value: "John", rules: [isRequired] },
+    });
+    resetForm();
+    await flushPromises();
+    name.value = "";
+    await flushPromises();
+    expect(name.errors).toEqual(["required"]);
+  });
+
+  test("a form reset by the submit handler stays unsubmitted", async () => {
+    const { handleSubmit, formState, resetForm } = useForm({
+      someInput: "hello",
+    });
+    await handleSubmit(() => resetForm())();
+    expect(formState.value.submitted).toBe(false);
+    expect(formState.value.submitCount).toBe(0);
+  });
+
+  test("disabled fields can be missing from the values", () => {
+    const { handleSubmit } = useForm<{ name: string; company: string }>({
+      name: "John",
+      company: { value: "", disabled: true },
+    });
+    handleSubmit((values) => {
+      expectTypeOf(values).toEqualTypeOf<{ name?: string; company?: string }>();
+    });
+  });
+
+  test("resetForm resets the submit state", async () => {
+    const { handleSubmit, formState, resetForm } = useForm({
+      someInput: "hello",
+    });
+    await handleSubmit(() => {})();
+    resetForm();
+    expect(formState.value.submitted).toBe(false);
+    expect(formState.value.submitCount).toBe(0);
+  });
+});
@@ -0,0 +1,79 @@
+import { Ref } from "vue";
+import {
+  DeepPartial,
+  FormValidationResult,
+  InternalFormState,
+  formPersist,
+  formSchema,
+} from "../useForm";
+import { validateForm } from "./validation";
+
+/**
+ * The values onValid is called with: the output of the schema, or else the
+ * values without disabled fields. Untyped forms get any.
+ */
+export type SubmitValues<
+  T extends Record<string, unknown>,
+  O = T
+> = 0 extends 1 & O
+  ? any
+  : [O] extends [T]
+  ? [T] extends [O]
+    ? DeepPartial<T>
+    : O
+  : O;
+
+export type SubmitHandler<T extends Record<string, unknown>, O = T, E = any> = (
+  values: SubmitValues<T, O>,
+  result: FormValidationResult<T, O, E>
+) => unknown | Promise<unknown>;
+
+export type InvalidSubmitHandler<
+  T extends Record<string, unknown>,
+  O = T,
+  E = any
+> = (result: FormValidationResult<T, O, E>) => unknown | Promise<unknown>;
+
+export function handleSubmit<T extends Record<string, unknown>, O = T, E = any>(
+  formState: Ref<InternalFormState<T>>,
+  submitValues: Ref<DeepPartial<T>>
+) {
+  return (
+      onValid: SubmitHandler<T, O, E>,
+      onInvalid?: InvalidSubmitHandler<T, O, E>
+    ) =>
+    async (evt?: Event) => {
+      evt?.preventDefault?.();
+      // ignore a new submit while the previous one is still running
+      if (formState.value.submitting) {
+        return;
+      }
+      formState.value.submitting = true;
+      const submitCount = ++formState.value.submitCount;
+      formState.value.submitError = undefined;
+      try {
+        const result = (await validateForm(
+          formState
+        )()) as FormValidationResult<T, O, E>;
+        if (result.valid) {
+          // only disabled fields are left out of the submit values
+          const values = formState.value[formSchema]
+            ? result.output
+            : submitValues.value;
+          await onValid(values as SubmitValues<T, O>, result);
+          // the saved draft is no longer needed once it has been submitted
+          formState.value[formPersist]?.clear();
+        } else {
+          await onInvalid?.(result);
+        }
+      } catch (error) {
+        formState.value.submitError = error;
+      } finally {
+        formState.value.submitting = false;
+        // a form that was reset during the submit stays unsubmitted
+        if (formState.value.submitCount === submitCount) {
+          formState.value.submitted = true;
+        }
+      }
+    };
+}
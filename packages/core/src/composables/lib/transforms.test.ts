@@ -0,0 +1,91 @@
+import flushPromises from "flush-promises";
+import { describe, expect, test } from "vitest";
+import { useForm } from "../useForm";
+import {
+  emptyToNull,
+  toDate,
+  toInteger,
+  toNumber,
+  toTrimmed,
+} from "./transforms";
+
+describe("transforms", () => {
+  test("displayValue is parsed into value and rules receive the parsed value", async () => {
+    const received: unknown[] = [];
+    const { age } = useForm({
+      age: {
+        value: 18,
+        rules: [(value: number) => received.push(value) > 0],
+        ...toNumber,
+      },
+    });
+    expect(age.displayValue).toBe("18");
+
+    age.displayValue = "21";
+    await flushPromises();
+    expect(age.value).toBe(21);
+    expect(received).toEqual([21]);
+  });
+
+  test("displayValue keeps the input while it matches the value", () => {
+    const { price, name } = useForm({
+      price: { value: 0, ...toNumber },
+      name: { value: "", ...toTrimmed },
+    });
+    price.displayValue = "1.";
+    expect(price.value).toBe(1);
+    expect(price.displayValue).toBe("1.");
+
+    name.displayValue = "John ";
+    expect(name.value).toBe("John");
+    expect(name.displayValue).toBe("John ");
+
+    price.value = 2;
+    expect(price.displayValue).toBe("2");
+  });
+
+  test("displayValue is the value without transforms", () => {
+    const { name } = useForm({ name: "" });
+    name.displayValue = "John";
+    expect(name.value).toBe("John");
+    expect(name.displayValue).toBe("John");
+  });
+
+  test("toNumber and toInteger", () => {
+    expect(toNumber.parse("1.5")).toBe(1.5);
+    expect(toNumber.parse("")).toBeNaN();
+    expect(toNumber.parse("abc")).toBeNaN();
+    expect(toNumber.format(NaN)).toBe("");
+    expect(toInteger.parse("2")).toBe(2);
+    expect(toInteger.parse("1.5")).toBeNaN();
+  });
+
+  test("toDate", () => {
+    const date = toDate.parse("2024-02-29");
+    expect(date.getTime()).toBe(Date.UTC(2024, 1, 29));
+    expect(toDate.format(date)).toBe("2024-02-29");
+    expect(toDate.format(toDate.parse(""))).toBe("");
+  });
+
+  test("emptyToNull", () => {
+    const nullableNumber = emptyToNull(toNumber);
+    expect(nullableNumber.parse("")).toBeNull();
+    expect(nullableNumber.parse("3")).toBe(3);
+    expect(nullableNumber.format(null)).toBe("");
+    expect(nullableNumber.format(3)).toBe("3");
+    expect(emptyToNull().parse("a")).toBe("a");
+  });
+
+  test("a changed date makes the field dirty", async () => {
+    const { birthday } = useForm({
+      birthday: { value: new Date(Date.UTC(2000, 0, 1)), ...toDate },
+    });
+    birthday.displayValue = "2000-01-01";
+    await flushPromises();
+    expect(birthday.dirty).toBe(false);
+
+    birthday.displayValue = "2000-01-02";
+    await flushPromises();
+    expect(birthday.dirty).toBe(true);
+  });
+});
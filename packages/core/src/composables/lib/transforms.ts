@@ -0,0 +1,67 @@
+/**
+ * A parse and format pair for a field, spread it into the initial state:
+ * { value: 0, ...toNumber }
+ */
+export type FieldTransform<V> = {
+  parse: (input: any) => V;
+  format: (value: V) => unknown;
+};
+
+/**
+ * Parses the input to a number, an empty or invalid input becomes NaN
+ */
+export const toNumber: FieldTransform<number> = {
+  parse: (input) =>
+    typeof input === "number"
+      ? input
+      : String(input ?? "").trim() === ""
+      ? NaN
+      : Number(input),
+  format: (value) => (Number.isNaN(value) ? "" : String(value)),
+};
+
+/**
+ * Parses the input to a whole number, other input becomes NaN
+ */
+export const toInteger: FieldTransform<number> = {
+  parse: (input) => {
+    const value = toNumber.parse(input);
+    return Number.isInteger(value) ? value : NaN;
+  },
+  format: toNumber.format,
+};
+
+/**
+ * Removes whitespace around the input, the input keeps it while typing
+ */
+export const toTrimmed: FieldTransform<string> = {
+  parse: (input) => String(input ?? "").trim(),
+  format: (value) => value,
+};
+
+/**
+ * Parses the yyyy-mm-dd value of a date input to a Date, in UTC
+ */
+export const toDate: FieldTransform<Date> = {
+  parse: (input) => (input instanceof Date ? input : new Date(input)),
+  format: (value) =>
+    Number.isNaN(value.getTime()) ? "" : value.toISOString().slice(0, 10),
+};
+
+/**
+ * Turns an empty input into null, other input is parsed with the transform
+ */
+export function emptyToNull<V = string>(
+  transform?: FieldTransform<V>
+): FieldTransform<V | null> {
+  return {
+    parse: (input) =>
+      input === "" || input == null
+        ? null
+        : transform
+        ? transform.parse(input)
+        : input,
+    format: (value) =>
+      value === null ? "" : transform ? transform.format(value) : value,
+  };
+}
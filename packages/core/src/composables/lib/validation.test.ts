@@ -2,6 +2,7 @@ import { beforeEach, describe, expect, test, vi } from "vitest";
 import {
   collectErrors,
   createInternalValidationResults,
+  fieldErrors,
   processValidationObject,
   validateInternal,
 } from "./validation";
@@ -10,9 +11,11 @@ import {
   InternalFormState,
   InternalRule,
   Rule,
+  RuleFunction,
   useForm,
 } from "../useForm";
-import { Ref } from "vue";
+import { Ref, nextTick } from "vue";
+import flushPromises from "flush-promises";
 
 describe("validation", () => {
   test("createInternalValidationResults", () => {
@@ -32,7 +35,7 @@ describe("validation", () => {
     });
     expect(createInternalValidationResults(false)).toEqual({
       valid: false,
-      errors: ["not valid"],
+      errors: [{ code: "invalid", params: {}, message: "Not valid" }],
     });
     expect(createInternalValidationResults(true)).toEqual({
       valid: true,
@@ -157,6 +160,286 @@ describe("validation", () => {
     });
   });
 
+  describe("debounce and cancellation", () => {
+    test("waits for the debounce time before calling the rule", async () => {
+      vi.useFakeTimers();
+      const spy = vi.fn().mockReturnValue("some error");
+      const result = processValidationObject(
+        { rule: spy, debounce: 300 },
+        ["arg1"],
+        false,
+        true
+      );
+      expect(spy).not.toHaveBeenCalled();
+      await vi.advanceTimersByTimeAsync(300);
+      expect(spy).toHaveBeenCalledWith("arg1");
+      expect(await result).toBe("some error");
+      vi.useRealTimers();
+    });
+
+    test("doesn't wait when the validation is explicit", () => {
+      const spy = vi.fn().mockReturnValue("some error");
+      const result = processValidationObject(
+        { rule: spy, debounce: 300 },
+        ["arg1"],
+        true,
+        true
+      );
+      expect(result).toBe("some error");
+    });
+
+    test("skips the rule when the signal is aborted while waiting", async () => {
+      const spy = vi.fn();
+      const controller = new AbortController();
+      const result = processValidationObject(
+        { rule: spy, debounce: 300 },
+        ["arg1"],
+        false,
+        true,
+        controller.signal
+      );
+      controller.abort();
+      expect(await result).toBeUndefined();
+      expect(spy).not.toHaveBeenCalled();
+    });
+
+    test("removes the abort listener once the debounce time has passed", async () => {
+      vi.useFakeTimers();
+      const controller = new AbortController();
+      const remove = vi.spyOn(controller.signal, "removeEventListener");
+      const result = processValidationObject(
+        { rule: () => "some error", debounce: 300 },
+        ["arg1"],
+        false,
+        true,
+        controller.signal
+      );
+      await vi.advanceTimersByTimeAsync(300);
+      expect(await result).toBe("some error");
+      expect(remove).toHaveBeenCalledWith("abort", expect.any(Function));
+      vi.useRealTimers();
+    });
+
+    test("aborts the signal of a running rule when the field changes", async () => {
+      const signals: AbortSignal[] = [];
+      const { someInput } = useForm({
+        someInput: {
+          value: "",
+          rules: [
+            async (_value: string, _name, _formState, signal) => {
+              signals.push(signal);
+            },
+          ],
+        },
+      });
+      someInput.value = "a";
+      await nextTick();
+      someInput.value = "ab";
+      await flushPromises();
+      expect(signals.length).toBe(2);
+      expect(signals[0].aborted).toBe(true);
+      expect(signals[1].aborted).toBe(false);
+    });
+
+    test("debounced rules only run for the last change", async () => {
+      vi.useFakeTimers();
+      const spy = vi.fn().mockResolvedValue("taken");
+      const { someInput } = useForm({
+        someInput: { value: "", rules: [{ rule: spy, debounce: 300 }] },
+      });
+      someInput.value = "a";
+      await nextTick();
+      someInput.value = "ab";
+      await vi.advanceTimersByTimeAsync(300);
+      await flushPromises();
+      expect(spy).toHaveBeenCalledTimes(1);
+      expect(spy.mock.calls[0][0]).toBe("ab");
+      expect(someInput.errors).toEqual(["taken"]);
+      vi.useRealTimers();
+    });
+  });
+
+  describe("concurrent async validation", () => {
+    // rule that resolves with the error when the test says so
+    const deferredRule = () => {
+      const pending: ((error?: string) => void)[] = [];
+      const rule = () =>
+        new Promise<string | undefined>((resolve) => pending.push(resolve));
+      return { rule, resolve: (index: number, error?: string) => pending[index](error) };
+    };
+
+    test("a validation of another field doesn't discard a running result", async () => {
+      const a = deferredRule();
+      const b = deferredRule();
+      const { fieldA, fieldB, formState } = useForm({
+        fieldA: { value: "", rules: [a.rule] },
+        fieldB: { value: "", rules: [b.rule] },
+      });
+
+      fieldA.value = "slow";
+      await flushPromises();
+      fieldB.value = "fast";
+      await flushPromises();
+
+      b.resolve(0, "error b");
+      await flushPromises();
+      expect(fieldB.errors).toEqual(["error b"]);
+      expect(fieldB.pending).toBe(false);
+      expect(fieldA.pending).toBe(true);
+      expect(formState.value.pending).toBe(true);
+
+      a.resolve(0, "error a");
+      await flushPromises();
+      expect(fieldA.errors).toEqual(["error a"]);
+      expect(fieldA.pending).toBe(false);
+      expect(formState.value.pending).toBe(false);
+      expect(formState.value.errorFields).toEqual({
+        fieldA: ["error a"],
+        fieldB: ["error b"],
+      });
+    });
+
+    test("a newer validation of the same field wins", async () => {
+      const a = deferredRule();
+      const { fieldA } = useForm({
+        fieldA: { value: "", rules: [a.rule] },
+      });
+
+      fieldA.value = "first";
+      await flushPromises();
+      fieldA.value = "second";
+      await flushPromises();
+
+      a.resolve(1, "second error");
+      await flushPromises();
+      a.resolve(0, "first error");
+      await flushPromises();
+      expect(fieldA.errors).toEqual(["second error"]);
+      expect(fieldA.pending).toBe(false);
+    });
+
+    test("validateForm collects running validations of all fields", async () => {
+      const a = deferredRule();
+      const b = deferredRule();
+      const { fieldA, fieldB, validateForm } = useForm({
+        fieldA: { value: "", rules: [a.rule] },
+        fieldB: { value: "", rules: [b.rule] },
+      });
+
+      fieldA.value = "changed";
+      await flushPromises();
+      const result = validateForm();
+      await flushPromises();
+      b.resolve(0);
+      a.resolve(1, "error a");
+      a.resolve(0);
+      expect(await result).toEqual({
+        valid: false,
+        errors: ["error a"],
+        errorFields: { fieldA: ["error a"] },
+        warnings: [],
+        warningFields: {},
+        ruleResults: {},
+      });
+      expect(fieldB.valid).toBe(true);
+    });
+
+    test("a slow form rule result is replaced by a newer one", async () => {
+      const formRule = deferredRule();
+      const { fieldA, fieldB, formState, setRules } = useForm({
+        fieldA: "",
+        fieldB: "",
+      });
+      setRules({ formRules: [formRule.rule] });
+
+      fieldA.value = "a";
+      await flushPromises();
+      fieldB.value = "b";
+      await flushPromises();
+
+      formRule.resolve(1, "newer");
+      await flushPromises();
+      formRule.resolve(0, "older");
+      await flushPromises();
+      expect(formState.value.errors).toEqual(["newer"]);
+      expect(formState.value.pending).toBe(false);
+    });
+  });
+
+  describe("dependent fields", () => {
+    const matchesPassword = {
+      rule: (value: string, _name: string, formState: Ref<any>) =>
+        value === formState.value.fields.password.value || "no match",
+      deps: ["password" as const],
+    };
+
+    test("a change to a dependency validates the field again", async () => {
+      const { password, confirm } = useForm({
+        password: "secret",
+        confirm: { value: "", rules: [matchesPassword] },
+      });
+      confirm.value = "secret";
+      await flushPromises();
+      expect(confirm.errors).toEqual([]);
+
+      password.value = "other";
+      await flushPromises();
+      expect(confirm.errors).toEqual(["no match"]);
+    });
+
+    test("untouched dependent fields are not validated", async () => {
+      const { password, confirm } = useForm({
+        password: "",
+        confirm: { value: "", rules: [matchesPassword] },
+      });
+      password.value = "secret";
+      await flushPromises();
+      expect(confirm.errors).toEqual([]);
+    });
+  });
+
+  describe("field errors of form rules", () => {
+    test("createInternalValidationResults keeps errors per field", () => {
+      expect(
+        createInternalValidationResults([
+          "form error",
+          fieldErrors({ confirm: "no match", password: [undefined] }),
+        ])
+      ).toEqual({
+        valid: false,
+        errors: ["form error", "no match"],
+        errorFields: { confirm: ["no match"] },
+      });
+    });
+
+    test("errors end up in errorFields of the field", async () => {
+      const { password, formState, validateForm, setRules } = useForm({
+        password: { value: "secret", rules: [() => "too short"] },
+        confirm: "",
+      });
+      setRules({
+        formRules: [
+          (formState) =>
+            formState.value.fields.password.value !==
+              formState.value.fields.confirm.value &&
+            fieldErrors({ confirm: "no match", password: "no match" }),
+        ],
+      });
+      const result = await validateForm();
+      expect(result.errorFields).toEqual({
+        password: ["too short", "no match"],
+        confirm: ["no match"],
+      });
+      expect(formState.value.errorFields.confirm).toEqual(["no match"]);
+      expect(formState.value.errors).toEqual([
+        "too short",
+        "no match",
+        "no match",
+      ]);
+      expect(password.errors).toEqual(["too short"]);
+    });
+  });
+
   describe("validateInternal", () => {
     test("validateInternal returns valid if rule is undefined", async () => {
       const result = validateInternal(undefined);
@@ -253,4 +536,165 @@ describe("validation", () => {
       });
     });
   });
+
+  describe("warnings", () => {
+    const weakPassword: Rule<string, any> = {
+      severity: "warning",
+      rule: (value) => value.length >= 12 || "weak password",
+    };
+
+    test("warnings don't make the field or form invalid", async () => {
+      const { password, formState, validateForm } = useForm({
+        password: { value: "", rules: [weakPassword] },
+      });
+      password.value = "secret";
+      await flushPromises();
+      expect(password.warnings).toEqual(["weak password"]);
+      expect(password.errors).toEqual([]);
+      expect(password.valid).toBe(true);
+      expect(formState.value.warnings).toEqual(["weak password"]);
+      expect(formState.value.warningFields).toEqual({
+        password: ["weak password"],
+      });
+      expect(formState.value.valid).toBe(true);
+
+      const result = await validateForm();
+      expect(result.valid).toBe(true);
+      expect(result.warnings).toEqual(["weak password"]);
+    });
+
+    test("warnings and errors of the same field are kept apart", async () => {
+      const { password } = useForm({
+        password: {
+          value: "",
+          rules: [
+            weakPassword,
+            {
+              severity: "warning",
+              rule: async (value: string) =>
+                value === "password" ? "common password" : undefined,
+            },
+            (value: string) => value.length >= 8 || "too short",
+          ],
+        },
+      });
+      await password.validate();
+      password.value = "password";
+      await flushPromises();
+      expect(password.errors).toEqual([]);
+      expect(password.warnings).toEqual(["weak password", "common password"]);
+
+      password.value = "pass";
+      await flushPromises();
+      expect(password.errors).toEqual(["too short"]);
+      expect(password.warnings).toEqual(["weak password"]);
+    });
+
+    test("form rules can warn about fields", async () => {
+      const { setRules, validateForm } = useForm({ start: "2000-01-01" });
+      setRules({
+        formRules: [
+          {
+            severity: "warning",
+            rule: (formState) =>
+              fieldErrors({
+                start: `${formState.value.fields.start.value} is in the past`,
+              }),
+          },
+        ],
+      });
+      const result = await validateForm();
+      expect(result.valid).toBe(true);
+      expect(result.warningFields).toEqual({
+        start: ["2000-01-01 is in the past"],
+      });
+    });
+
+    test("submitting isn't blocked by warnings", async () => {
+      const { handleSubmit } = useForm({
+        password: { value: "secret", rules: [weakPassword] },
+      });
+      const onValid = vi.fn();
+      await handleSubmit(onValid)();
+      expect(onValid).toHaveBeenCalledWith(
+        { password: "secret" },
+        expect.objectContaining({ valid: true, warnings: ["weak password"] })
+      );
+    });
+  });
+
+  describe("rule results", () => {
+    const rules: (Rule<string, any> | RuleFunction<string, any>)[] = [
+      { name: "length", rule: (value) => value.length >= 8 || "too short" },
+      { name: "digit", rule: (value) => /\d/.test(value) || "no digit" },
+      (value) => value !== "password1" || "common password",
+    ];
+
+    test("fields have the result of every named rule", async () => {
+      const { password } = useForm({ password: { value: "", rules } });
+      expect(password.ruleResults).toEqual({
+        length: { valid: true, error: undefined, pending: false },
+        digit: { valid: true, error: undefined, pending: false },
+      });
+
+      password.value = "secret1";
+      await flushPromises();
+      expect(password.ruleResults).toEqual({
+        length: { valid: false, error: "too short", pending: false },
+        digit: { valid: true, error: undefined, pending: false },
+      });
+      expect(password.errors).toEqual(["too short"]);
+    });
+
+    test("async rules are pending until they resolve", async () => {
+      let resolve: (result: string | undefined) => void = () => {};
+      const { username } = useForm({
+        username: {
+          value: "",
+          rules: [
+            {
+              name: "available",
+              rule: () =>
+                new Promise<string | undefined>((r) => {
+                  resolve = r;
+                }),
+            },
+          ],
+        },
+      });
+      username.value = "john";
+      await nextTick();
+      expect(username.ruleResults.available.pending).toBe(true);
+
+      resolve("taken");
+      await flushPromises();
+      expect(username.ruleResults.available).toEqual({
+        valid: false,
+        error: "taken",
+        pending: false,
+      });
+    });
+
+    test("validateForm returns the rule results and reset clears them", async () => {
+      const { password, validateForm, resetForm } = useForm({
+        name: "",
+        password: { value: "abc", rules },
+      });
+      const result = await validateForm();
+      expect(result.ruleResults).toEqual({
+        password: {
+          length: { valid: false, error: "too short", pending: false },
+          digit: { valid: false, error: "no digit", pending: false },
+        },
+      });
+      expect(result.errors).toEqual(["too short", "no digit"]);
+
+      resetForm();
+      expect(password.ruleResults.length).toEqual({
+        valid: true,
+        error: undefined,
+        pending: false,
+      });
+    });
+  });
 });
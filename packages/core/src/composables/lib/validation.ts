@@ -1,20 +1,111 @@
 import { Ref } from "vue";
 import {
+  ErrorMessages,
   InternalFormState,
   InternalField,
   InternalRule,
   InternalValidationResult,
   RuleFunction,
+  RuleResult,
+  fieldAbortController,
   fieldRules,
+  fieldSchemaRule,
   fieldPrevValue,
+  fieldValidationLock,
+  fieldExternalErrors,
+  formExternalErrors,
+  formFieldArrays,
+  formAbortController,
   formIgnoreValidation,
+  formMessages,
+  formMode,
+  formPendingValidations,
+  formReValidateMode,
+  formRuleResult,
+  formSchema,
+  formSchemaRule,
   formValidationLock,
+  getSubmitValues,
+  getValues,
 } from "../useForm";
 import { generateRandomId } from "../../utils/randomId";
 import { createValidationObject } from "./createFields";
+import { ErrorContext, validationError, withErrorContext } from "./messages";
 import { cloneDeep } from "../../utils/cloneDeep";
 import { deepEqual } from "../../utils/deepEqual";
 
+const fieldErrorsKey = Symbol("fieldErrors");
+
+export type FieldErrors<E = any> = {
+  [fieldErrorsKey]: Record<string, E | E[]>;
+};
+
+/**
+ * Marks the result of a form rule as errors for specific fields, so they end
+ * up in errorFields under the name of the field.
+ *
+ * @example
+ * const passwordsMatch = (formState) =>
+ *   formState.value.fields.password.value !== formState.value.fields.confirm.value
+ *     ? fieldErrors({ confirm: "Passwords don't match" })
+ *     : undefined;
+ */
+export function fieldErrors<E>(
+  errors: Record<string, E | E[]>
+): FieldErrors<E> {
+  return { [fieldErrorsKey]: errors };
+}
+
+const warningsKey = Symbol("warnings");
+
+type Warnings = {
+  [warningsKey]: unknown;
+};
+
+function isWarnings(value: unknown): value is Warnings {
+  return typeof value === "object" && value !== null && warningsKey in value;
+}
+
+// results of warning rules are kept apart until the errors are created
+function asWarnings(result: unknown): Warnings | undefined {
+  return result === undefined ? undefined : { [warningsKey]: result };
+}
+
+/**
+ * The rules of the form, with the form rule of the schema first
+ */
+function formRulesOf<T extends Record<string, unknown>>(
+  formState: Ref<InternalFormState<T>>
+) {
+  const schemaRule = formState.value[formSchemaRule];
+  return schemaRule
+    ? [schemaRule, ...formState.value.formRules]
+    : formState.value.formRules;
+}
+
+function isFieldErrors(value: unknown): value is FieldErrors {
+  return typeof value === "object" && value !== null && fieldErrorsKey in value;
+}
+
+/**
+ * The errors per field name of a result of fieldErrors, or none
+ */
+export function fieldErrorsOf(value: unknown): Record<string, unknown> {
+  return isFieldErrors(value) ? value[fieldErrorsKey] : {};
+}
+
+/**
+ * The rules of a field, with the rule of the schema first
+ */
+export function fieldRulesOf<T extends Record<string, unknown>>(
+  field: InternalField<T[keyof T], T>
+) {
+  const schemaRule = field[fieldSchemaRule];
+  return schemaRule
+    ? [schemaRule, ...(field[fieldRules] ?? [])]
+    : field[fieldRules] ?? [];
+}
+
 export function validateField<T extends Record<string, unknown>>(
   formState: Ref<InternalFormState<T>>,
   field: InternalField<T[keyof T], T>
@@ -22,19 +113,18 @@ export function validateField<T extends Record<string, unknown>>(
   return async function (validationFunction?: RuleFunction<T[keyof T], T>[]) {
     const rules = validationFunction
       ? createValidationObject(validationFunction)
-      : field[fieldRules] ?? [];
+      : fieldRulesOf(field);
+    clearExternalErrors(field);
 
-    const { validationLockId, validate } =
-      createValidateFieldFunction(formState);
-    formState.value.pending = true;
-    const validationResult = await validate(field, rules, validationLockId, {
-      promise: true,
-      alwaysValidate: true,
+    const { validate } = createValidateFieldFunction(formState);
+    return trackPending(formState, async () => {
+      const validationResult = await validate(field, rules, {
+        promise: true,
+        alwaysValidate: true,
+      });
+      await validateFormInternal(formState)({ promise: true });
+      return validationResult;
     });
-
-    await validateFormInternal(formState)({ promise: true });
-    formState.value.pending = false;
-    return validationResult;
   };
 }
 
@@ -42,21 +132,40 @@ export function validateForm<T extends Record<string, unknown>>(
   formState: Ref<InternalFormState<T>>
 ) {
   return async function () {
-    const { validationLockId, validate } =
-      createValidateFieldFunction(formState);
+    const { validate } = createValidateFieldFunction(formState);
+    Object.values(formState.value.fields).forEach(clearExternalErrors);
+    formState.value[formExternalErrors] = undefined;
 
     const promise = async (field: InternalField<T[keyof T], T>) => {
-      await validate(field, field[fieldRules] ?? [], validationLockId, {
+      if (field.disabled) {
+        return;
+      }
+      await validate(field, fieldRulesOf(field), {
         promise: true,
         alwaysValidate: true,
       });
     };
-    formState.value.pending = true;
-    await Promise.all(Object.values(formState.value.fields).map(promise));
+    return trackPending(formState, async () => {
+      await Promise.all([
+        ...Object.values(formState.value.fields).map(promise),
+        ...fieldArrayForms(formState).map((form) => form.validateForm()),
+      ]);
 
-    const result = await validateFormInternal(formState)({ promise: true });
-    formState.value.pending = false;
-    return result;
+      const result: Awaited<
+        ReturnType<ReturnType<typeof validateFormInternal>>
+      > & { ruleResults?: Record<string, Record<string, RuleResult>> } & {
+        output?: unknown;
+      } = await validateFormInternal(formState)({
+        promise: true,
+      });
+      result.ruleResults = collectRuleResults(formState);
+      const schemaValidator = formState.value[formSchema];
+      if (schemaValidator && result.valid) {
+        // the schema result is cached, so this doesn't validate again
+        result.output = (await schemaValidator(getSubmitValues(formState))).output;
+      }
+      return result;
+    });
   };
 }
 
@@ -64,10 +173,12 @@ export function validationWatcher<T extends Record<string, unknown>>(
   formState: Ref<InternalFormState<T>>
 ) {
   return async () => {
+    // changes from setFields, resetForm and setInitialValues are not validated
+    const ignoreValidation = formState.value[formIgnoreValidation];
+    formState.value[formIgnoreValidation] = false;
     const fields = Object.values(formState.value.fields);
 
-    const { validate, validationLockId } =
-      createValidateFieldFunction(formState);
+    const { validate } = createValidateFieldFunction(formState);
 
     // compare two array on which keys are unequal
     const unequalValues = fields.filter((field) => {
@@ -76,55 +187,192 @@ export function validationWatcher<T extends Record<string, unknown>>(
       }
       return !deepEqual(cloneDeep(field.value), field[fieldPrevValue]);
     });
+    // fields with a rule that depends on a changed field, only when the user already interacted with them
+    const changedNames = unequalValues.map((field) => field.name);
+    const dependentFields = fields.filter(
+      (field) =>
+        !unequalValues.includes(field) &&
+        !field.disabled &&
+        (field.dirty || field.touched) &&
+        dependsOn(field, changedNames)
+    );
+
     const promise = async (field: InternalField<T[keyof T], T>) => {
-      // save prev value, as vue doesnt give back old values in watch if we change a deep object or array
-      field[fieldPrevValue] = cloneDeep(field.value);
-      if (formState.value[formIgnoreValidation]) {
+      if (
+        ignoreValidation ||
+        field.disabled ||
+        !shouldValidate(formState, field, "change")
+      ) {
         return;
       }
-      await validate(field, field[fieldRules] ?? [], validationLockId, {
+      await validate(field, fieldRulesOf(field), {
         promise: true,
         alwaysValidate: false,
       });
     };
 
-    formState.value.pending = true;
-    await Promise.all(unequalValues.map(promise));
-    await validateFormInternal(formState)({ promise: true });
-    formState.value.pending = false;
-    formState.value[formIgnoreValidation] = false;
+    // save prev value, as vue doesnt give back old values in watch if we change a deep object or array
+    unequalValues.forEach((field) => {
+      field[fieldPrevValue] = cloneDeep(field.value);
+    });
+
+    await trackPending(formState, async () => {
+      await Promise.all([...unequalValues, ...dependentFields].map(promise));
+      if (!ignoreValidation && shouldValidate(formState, undefined, "change")) {
+        await validateFormInternal(formState)({ promise: true });
+      }
+    });
   };
 }
 
+function dependsOn<T extends Record<string, unknown>>(
+  field: InternalField<T[keyof T], T>,
+  names: string[]
+) {
+  return fieldRulesOf(field).some((rule) =>
+    rule.deps?.some((dep) =>
+      names.some((name) => name === dep || name.startsWith(`${dep}.`))
+    )
+  );
+}
+
+/**
+ * Checks if a field (or the form rules, when no field is given) should be
+ * validated for a trigger, based on the validation mode
+ */
+export function shouldValidate<T extends Record<string, unknown>>(
+  formState: Ref<InternalFormState<T>>,
+  field: InternalField<T[keyof T], T> | undefined,
+  trigger: "change" | "blur"
+) {
+  const mode =
+    formState.value.submitCount > 0
+      ? formState.value[formReValidateMode]
+      : field?.mode ?? formState.value[formMode];
+  const touched = field ? field.touched : formState.value.touched;
+
+  switch (mode ?? "onChange") {
+    case "onChange":
+      return trigger === "change";
+    case "onBlur":
+      return trigger === "blur";
+    case "onTouched":
+      return trigger === "blur" || touched;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Validates a field after a trigger like blur, skipping rules that have autoValidate turned off
+ */
+export async function triggerFieldValidation<T extends Record<string, unknown>>(
+  formState: Ref<InternalFormState<T>>,
+  field: InternalField<T[keyof T], T>
+) {
+  if (field.disabled) {
+    return;
+  }
+  const { validate } = createValidateFieldFunction(formState);
+  await trackPending(formState, async () => {
+    await validate(field, fieldRulesOf(field), {
+      promise: true,
+      alwaysValidate: false,
+    });
+    await validateFormInternal(formState)({ promise: true });
+  });
+}
+
+/**
+ * Keeps the form pending while any validation is running. Validations can
+ * overlap, so the form is only done when the last one finishes.
+ */
+async function trackPending<T extends Record<string, unknown>, R>(
+  formState: Ref<InternalFormState<T>>,
+  run: () => Promise<R>
+) {
+  formState.value[formPendingValidations] =
+    (formState.value[formPendingValidations] ?? 0) + 1;
+  formState.value.pending = true;
+  try {
+    return await run();
+  } finally {
+    const pendingValidations = formState.value[formPendingValidations]! - 1;
+    formState.value[formPendingValidations] = pendingValidations;
+    formState.value.pending = pendingValidations > 0;
+  }
+}
+
 export function createValidateFieldFunction<T extends Record<string, unknown>>(
   formState: Ref<InternalFormState<T>>
 ) {
-  const id = generateRandomId();
-  formState.value[formValidationLock] = id;
-
   const validate = async (
     field: InternalField<T[keyof T], T>,
     rules: InternalRule<T[keyof T]>[],
-    validationLockId: string,
     options: { promise?: boolean; alwaysValidate?: boolean }
   ) => {
+    const validationLockId = generateRandomId();
+    field[fieldValidationLock] = validationLockId;
     field.pending = true;
+    const errorContext: ErrorContext = {
+      messages: () => formState.value[formMessages],
+      label: field.label ?? field.name,
+    };
+    const setRuleResult = (name: string, result: unknown) => {
+      if (field[fieldValidationLock] !== validationLockId) {
+        return;
+      }
+      const errors = createInternalValidationResults(
+        [result].flat(),
+        errorContext
+      ).errors;
+      field.ruleResults[name] = {
+        valid: errors.length === 0,
+        error: errors[0],
+        pending: false,
+      };
+    };
     const validationResult = await validateInternal(
       rules,
       [field.value, field.name, formState],
-      options
+      {
+        ...options,
+        signal: restartAbortController(field, fieldAbortController),
+        errorContext,
+        onRuleResult: ({ name }, result) => {
+          if (!name) {
+            return;
+          }
+          if (!(result instanceof Promise)) {
+            setRuleResult(name, result);
+            return;
+          }
+          const ruleResult = field.ruleResults[name];
+          if (ruleResult) {
+            ruleResult.pending = true;
+          }
+          result.then(
+            (result) => setRuleResult(name, result),
+            () => setRuleResult(name, undefined)
+          );
+        },
+      }
     );
-    // if the validationLock id doesnt match, it means another validation has
-    // been trigger later
-    if (formState.value[formValidationLock] === validationLockId) {
-      field.valid = validationResult.valid;
-      field.errors = validationResult.errors;
+    // if the validationLock id doesnt match, it means another validation of
+    // this field has been triggered later, which will set the result
+    if (field[fieldValidationLock] === validationLockId) {
+      field.errors = [
+        ...validationResult.errors,
+        ...(field[fieldExternalErrors] ?? []),
+      ];
+      field.warnings = validationResult.warnings ?? [];
+      field.valid = field.errors.length === 0;
+      field.pending = false;
     }
-    field.pending = false;
     return validationResult;
   };
 
-  return { validate, validationLockId: id };
+  return { validate };
 }
 
 export function validateFormInternal<T extends Record<string, unknown>>(
@@ -132,19 +380,24 @@ export function validateFormInternal<T extends Record<string, unknown>>(
 ) {
   return (options?: { promise: boolean }) => {
     const promise = options?.promise ?? false;
-    if (formState.value[formIgnoreValidation]) {
-     
-      return { valid: true, errors: [], errorFields: {} };
-    }
-    formState.value.pending = true;
+    const validationLockId = generateRandomId();
+    formState.value[formValidationLock] = validationLockId;
 
     const _isFormValid = validateInternal(
-      formState.value.formRules as any,
+      formRulesOf(formState) as any,
       [formState],
-      { promise }
+      {
+        promise,
+        signal: restartAbortController(formState.value, formAbortController),
+        errorContext: { messages: () => formState.value[formMessages] },
+      }
     );
 
     const cb = (validationResults: InternalValidationResult) => {
+      // a later validation of the form rules will set the result, keep the last one until then
+      if (formState.value[formValidationLock] !== validationLockId) {
+        return collectErrors(formState);
+      }
       return collectErrors(formState, validationResults);
     };
 
@@ -156,37 +409,212 @@ export function validateFormInternal<T extends Record<string, unknown>>(
   };
 }
 
+/**
+ * Aborts the signal of the previous validation and creates a new one
+ */
+function restartAbortController<K extends symbol>(
+  target: { [key in K]?: AbortController },
+  key: K
+) {
+  target[key]?.abort();
+  const controller = new AbortController();
+  target[key] = controller;
+  return controller.signal;
+}
+
+/**
+ * The field arrays of which the array field is not disabled, keyed by the name of the field
+ */
+function activeFieldArrays<T extends Record<string, unknown>>(
+  formState: Ref<InternalFormState<T>>
+) {
+  return Object.entries(formState.value[formFieldArrays] ?? {}).filter(
+    ([name]) => !formState.value.fields[name]?.disabled
+  );
+}
+
+function fieldArrayForms<T extends Record<string, unknown>>(
+  formState: Ref<InternalFormState<T>>
+) {
+  return activeFieldArrays(formState).flatMap(([, fieldArray]) =>
+    fieldArray.forms()
+  );
+}
+
+/**
+ * Collects the results of the named rules of all fields, including the fields
+ * of field array rows (e.g. "contacts.0.name"). Fields without named rules are left out.
+ */
+function collectRuleResults<T extends Record<string, unknown>>(
+  formState: Ref<InternalFormState<T>>
+) {
+  const ruleResults: Record<string, Record<string, RuleResult>> = {};
+  for (const field of Object.values(formState.value.fields)) {
+    if (Object.keys(field.ruleResults).length) {
+      ruleResults[field.name] = Object.fromEntries(
+        Object.entries(field.ruleResults).map(([rule, result]) => [
+          rule,
+          { ...result },
+        ])
+      );
+    }
+  }
+  for (const [name, fieldArray] of activeFieldArrays(formState)) {
+    fieldArray.forms().forEach((form, index) => {
+      const rowResults = collectRuleResults(
+        form.formState as Ref<InternalFormState<Record<string, unknown>>>
+      );
+      for (const [key, value] of Object.entries(rowResults)) {
+        ruleResults[`${name}.${index}.${key}`] = value;
+      }
+    });
+  }
+  return ruleResults;
+}
+
+/**
+ * Collects the errors of field array rows, keyed by their path in the form (e.g. "contacts.0.name")
+ */
+function collectFieldArrayErrors<T extends Record<string, unknown>>(
+  formState: Ref<InternalFormState<T>>
+) {
+  const errors: unknown[] = [];
+  const errorFields: Record<string, unknown> = {};
+  const warnings: unknown[] = [];
+  const warningFields: Record<string, unknown> = {};
+  for (const [name, fieldArray] of activeFieldArrays(formState)) {
+    fieldArray.forms().forEach((form, index) => {
+      errors.push(...form.formState.value.errors);
+      warnings.push(...form.formState.value.warnings);
+      for (const [key, value] of Object.entries(
+        form.formState.value.errorFields
+      )) {
+        errorFields[`${name}.${index}.${key}`] = value;
+      }
+      for (const [key, value] of Object.entries(
+        form.formState.value.warningFields
+      )) {
+        warningFields[`${name}.${index}.${key}`] = value;
+      }
+    });
+  }
+  return { errors, errorFields, warnings, warningFields };
+}
+
+/**
+ * Combines field errors with the result of the form rules. When no result is
+ * given, the result of the last form rule validation is used.
+ */
 export function collectErrors<T extends Record<string, unknown>>(
   formState: Ref<InternalFormState<T>>,
   validationResults?: InternalValidationResult
 ) {
+  if (validationResults) {
+    formState.value[formRuleResult] = validationResults;
+  }
+  const formResult = formState.value[formRuleResult];
+  const fieldArrayErrors = collectFieldArrayErrors(formState);
+
+  const externalErrors = formState.value[formExternalErrors] ?? [];
+
+  // disabled fields don't count
+  const fields = (
+    Object.values(formState.value.fields) as InternalField<T[keyof T], T>[]
+  ).filter((field) => !field.disabled);
+
   const valid =
-    (
-      Object.values(formState.value.fields) as InternalField<T[keyof T], T>[]
-    ).every((field) => field.valid) &&
-    (validationResults?.valid ?? true);
+    fields.every((field) => field.valid) &&
+    fieldArrayErrors.errors.length === 0 &&
+    (formResult?.valid ?? true) &&
+    externalErrors.length === 0;
 
   const errors = [
-    ...(
-      Object.values(formState.value.fields) as InternalField<T[keyof T], T>[]
-    ).flatMap((field) => field.errors ?? []),
-    ...(validationResults?.errors ?? []),
+    ...fields.flatMap((field) => field.errors ?? []),
+    ...fieldArrayErrors.errors,
+    ...(formResult?.errors ?? []),
+    ...externalErrors,
   ];
   formState.value.errors = errors;
 
-  const errorFields = Object.keys(formState.value.fields).reduce((acc, key) => {
-    if (!formState.value.fields[key].valid) {
+  const errorFields = fields.reduce((acc, field) => {
+    if (!field.valid) {
+      return {
+        ...acc,
+        [field.name]: field.errors,
+      };
+    } else {
+      return acc;
+    }
+  }, fieldArrayErrors.errorFields) as Record<string, ErrorMessages[]>;
+
+  // errors of form rules for specific fields
+  for (const [key, value] of Object.entries(formResult?.errorFields ?? {})) {
+    errorFields[key] = [...(errorFields[key] ?? []), ...value];
+  }
+
+  formState.value.errorFields =
+    errorFields as InternalFormState<T>["errorFields"];
+
+  const warnings = [
+    ...fields.flatMap((field) => field.warnings ?? []),
+    ...fieldArrayErrors.warnings,
+    ...(formResult?.warnings ?? []),
+  ];
+  formState.value.warnings = warnings;
+
+  const warningFields = fields.reduce((acc, field) => {
+    if (field.warnings?.length) {
       return {
         ...acc,
-        [key]: formState.value.fields[key].errors,
+        [field.name]: field.warnings,
       };
     } else {
       return acc;
     }
-  }, {}) as { [P in keyof T]: string[] };
+  }, fieldArrayErrors.warningFields) as Record<string, ErrorMessages[]>;
+  for (const [key, value] of Object.entries(formResult?.warningFields ?? {})) {
+    warningFields[key] = [...(warningFields[key] ?? []), ...value];
+  }
+  formState.value.warningFields =
+    warningFields as InternalFormState<T>["warningFields"];
+
+  return {
+    valid,
+    errors,
+    errorFields: errorFields as InternalFormState<T>["errorFields"],
+    warnings,
+    warningFields: warningFields as InternalFormState<T>["warningFields"],
+  };
+}
+
+export function setExternalErrors<T extends Record<string, unknown>>(
+  field: InternalField<T[keyof T], T>,
+  errors: unknown[]
+) {
+  clearExternalErrors(field);
+  if (errors.length) {
+    field[fieldExternalErrors] = errors;
+    field.errors = [...field.errors, ...errors];
+    field.valid = false;
+  }
+}
 
-  formState.value.errorFields = errorFields;
-  return { valid, errors, errorFields };
+/**
+ * Removes errors that were set from outside the form (setErrors) from a field
+ *
+ * @returns {boolean} true when the field had external errors
+ */
+export function clearExternalErrors<T extends Record<string, unknown>>(
+  field: InternalField<T[keyof T], T>
+) {
+  const externalErrors = field[fieldExternalErrors];
+  if (!externalErrors) {
+    return false;
+  }
+  delete field[fieldExternalErrors];
+  field.errors = field.errors.filter((e) => !externalErrors.includes(e));
+  field.valid = field.errors.length === 0;
+  return true;
 }
 
 export function validateInternal<K extends unknown>(
@@ -195,29 +623,51 @@ export function validateInternal<K extends unknown>(
   options?: {
     promise?: boolean;
     alwaysValidate?: boolean;
+    signal?: AbortSignal;
+    errorContext?: ErrorContext;
+    /**
+     * Called with the result of every rule that runs, a promise for async rules
+     */
+    onRuleResult?: (rule: InternalRule<K>, result: unknown) => void;
   }
 ) {
   const promise = options?.promise ?? false;
+  const callArguments = options?.signal
+    ? [...validateFnArguments, options.signal as K]
+    : validateFnArguments;
   if (!obj) {
+    const noRules: InternalValidationResult = { valid: true, errors: [] };
     if (promise) {
-      return Promise.resolve({ valid: true, errors: [] });
+      return Promise.resolve(noRules);
     }
-    return { valid: true, errors: [] };
+    return noRules;
   } else {
     const validationResults = obj
-      .map((v) =>
-        processValidationObject(
+      .map((v) => {
+        const result = processValidationObject(
           v,
-          validateFnArguments,
+          callArguments,
           options?.alwaysValidate ?? false,
-          promise
-        )
-      )
+          promise,
+          options?.signal,
+          options?.onRuleResult &&
+            ((result) => options.onRuleResult!(v, result))
+        );
+        if (v.severity !== "warning") {
+          return result;
+        }
+        return result instanceof Promise
+          ? result.then(asWarnings)
+          : asWarnings(result);
+      })
       .flat();
     if (promise) {
-      return validationPromise(validationResults);
+      return validationPromise(validationResults, options?.errorContext);
     }
-    return createInternalValidationResults(validationResults.flat());
+    return createInternalValidationResults(
+      validationResults.flat(),
+      options?.errorContext
+    );
   }
 }
 
@@ -225,7 +675,9 @@ export function processValidationObject<K extends unknown>(
   rule: InternalRule<K>,
   callArguments: K[],
   shouldValidate: boolean,
-  promise: boolean
+  promise: boolean,
+  signal?: AbortSignal,
+  onResult?: (result: unknown) => void
 ) {
   // autovalidation should trigger when autoValidate is false and shouldValidate is false
   const noAutoValidation = !(rule.autoValidate ?? true) && !shouldValidate;
@@ -237,41 +689,111 @@ export function processValidationObject<K extends unknown>(
     return undefined;
   }
 
+  // debounced rules wait for changes to settle, unless the validation is explicit
+  if (rule.debounce && !shouldValidate) {
+    if (!promise) {
+      return undefined;
+    }
+    const result = debounceRule(rule.debounce, signal).then((aborted) =>
+      aborted ? undefined : rule.rule(...callArguments)
+    );
+    onResult?.(result);
+    return result;
+  }
+
   // when normal function returns a promise
   const result = rule.rule(...callArguments);
-  if (result instanceof Promise && !promise ) {
+  if (result instanceof Promise && !promise) {
     return undefined;
   }
 
-  return rule.rule(...callArguments);
+  onResult?.(result);
+  return result;
+}
+
+/**
+ * Waits for the debounce time
+ *
+ * @returns {Promise<boolean>} true when the signal got aborted while waiting
+ */
+function debounceRule(ms: number, signal?: AbortSignal) {
+  return new Promise<boolean>((resolve) => {
+    const onAbort = () => {
+      clearTimeout(timeout);
+      resolve(true);
+    };
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve(false);
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
 }
 
 export function createInternalValidationResults(
-  errors: unknown
+  errors: unknown,
+  errorContext: ErrorContext = {}
 ): InternalValidationResult {
   const mapErrors = (e: unknown) => {
     if (e === false) {
-      return "not valid";
+      return withErrorContext(validationError("invalid"), errorContext);
     }
     if (e === true) {
       return undefined;
     }
-    return e;
+    return withErrorContext(e, errorContext);
   };
   const errorFilter = (e: unknown) => e !== undefined && e !== null;
-  const _errors = Array.isArray(errors)
-    ? errors.map(mapErrors).filter(errorFilter)
-    : [errors].map(mapErrors).filter(errorFilter);
+  const results = Array.isArray(errors) ? errors : [errors];
+  const allErrors = results.filter((e) => !isWarnings(e));
+
+  const errorFields: Record<string, ErrorMessages[]> = {};
+  for (const result of allErrors.filter(isFieldErrors)) {
+    for (const [key, value] of Object.entries(result[fieldErrorsKey])) {
+      const fieldErrors = (Array.isArray(value) ? value : [value])
+        .map(mapErrors)
+        .filter(errorFilter);
+      if (fieldErrors.length) {
+        errorFields[key] = [...(errorFields[key] ?? []), ...fieldErrors];
+      }
+    }
+  }
+
+  const _errors = [
+    ...allErrors
+      .filter((e) => !isFieldErrors(e))
+      .map(mapErrors)
+      .filter(errorFilter),
+    ...Object.values(errorFields).flat(),
+  ];
+  const warnings = results.filter(isWarnings);
+  const warningResults = warnings.length
+    ? createInternalValidationResults(
+        warnings.flatMap((warning) => warning[warningsKey]),
+        errorContext
+      )
+    : undefined;
+
   return {
-    valid: !_errors?.length,
-    errors: _errors ?? [],
+    valid: !_errors.length,
+    errors: _errors,
+    ...(Object.keys(errorFields).length ? { errorFields } : {}),
+    ...(warningResults?.errors.length
+      ? { warnings: warningResults.errors }
+      : {}),
+    ...(warningResults?.errorFields
+      ? { warningFields: warningResults.errorFields }
+      : {}),
   };
 }
 
-export function validationPromise(validation: unknown[]) {
+export function validationPromise(
+  validation: unknown[],
+  errorContext?: ErrorContext
+) {
   return Promise.all(validation)
     .then((result) => {
-      return createInternalValidationResults(result.flat());
+      return createInternalValidationResults(result.flat(), errorContext);
     })
     .catch(() => {
       return createInternalValidationResults([]);
@@ -0,0 +1,131 @@
+import flushPromises from "flush-promises";
+import { describe, expect, expectTypeOf, test } from "vitest";
+import { nextTick, ref } from "vue";
+import { maxLength, minLength, required } from "./lib/rules";
+import { useField } from "./useField";
+import { useForm } from "./useForm";
+
+describe("useField", () => {
+  test("modelValue reads and writes the value of the field", async () => {
+    const { name } = useForm({ name: "" });
+    const { modelValue } = useField(name);
+    modelValue.value = "John";
+    expect(name.value).toBe("John");
+    await nextTick();
+    expect(name.dirty).toBe(true);
+  });
+
+  test("format and parse transform the value for the input", () => {
+    const { age } = useForm({ age: 18 });
+    const { modelValue } = useField(age, {
+      format: (value) => String(value),
+      parse: (value: string) => Number(value),
+    });
+    expect(modelValue.value).toBe("18");
+    modelValue.value = "21";
+    expect(age.value).toBe(21);
+  });
+
+  test("handlers blur and focus the field", () => {
+    const { name } = useForm({ name: "" });
+    const { onFocus, onBlur } = useField(name);
+    onFocus({} as FocusEvent);
+    expect(name.focused).toBe(true);
+    onBlur({} as FocusEvent);
+    expect(name.focused).toBe(false);
+    expect(name.touched).toBe(true);
+  });
+
+  test("attrs describe the input by its first error", async () => {
+    const { name } = useForm({
+      name: {
+        value: "",
+        rules: [(value: string) => value.length > 2 || "too short"],
+      },
+    });
+    const { attrs, errorMessage, errorId } = useField(name, { id: "name" });
+    expect(attrs.value).toMatchObject({
+      id: "name",
+      "aria-invalid": undefined,
+      "aria-describedby": undefined,
+    });
+
+    name.value = "J";
+    await flushPromises();
+    expect(errorMessage.value).toBe("too short");
+    expect(errorId).toBe("name-error");
+    expect(attrs.value).toMatchObject({
+      "aria-invalid": "true",
+      "aria-describedby": "name-error",
+    });
+  });
+
+  test("generates an id from the field name", () => {
+    const { address } = useForm({ address: { city: "" } });
+    const { id } = useField(address.city);
+    expect(id).toMatch(/^address-city-\w+$/);
+    expect(useField(address.city).id).toBe(id);
+  });
+
+  test("attrs describe the constraints of the built-in rules", () => {
+    const { name } = useForm({
+      name: { value: "", rules: [required(), minLength(2), maxLength(20)] },
+    });
+    const { attrs, required: isRequired } = useField(name);
+    expect(isRequired.value).toBe(true);
+    expect(attrs.value).toMatchObject({
+      "aria-required": "true",
+      minlength: 2,
+      maxlength: 20,
+      min: undefined,
+    });
+  });
+
+  test("errorMessage is typed by the errors of the form", () => {
+    type TooYoung = { code: "tooYoung"; min: number };
+    const tooYoung = (min: number): TooYoung => ({ code: "tooYoung", min });
+    const { name, age } = useForm({
+      name: { value: "", rules: [required(), () => "taken"] },
+      age: {
+        value: 0,
+        rules: [(value: number) => value >= 18 || tooYoung(18)],
+      },
+    });
+    // ValidationErrors show their message
+    expectTypeOf(useField(name).errorMessage.value).toEqualTypeOf<
+      string | TooYoung | undefined
+    >();
+    expectTypeOf(useField(age).warningMessage.value).toEqualTypeOf<
+      string | TooYoung | undefined
+    >();
+
+    const form = useForm({ name: { value: "", rules: [required()] } });
+    expectTypeOf(form.useField("name").errorMessage.value).toEqualTypeOf<
+      string | undefined
+    >();
+  });
+
+  test("the useField of a form takes the name of a field", () => {
+    const form = useForm({ address: { city: "Amsterdam" } });
+    const { modelValue, field } = form.useField("address.city");
+    expectTypeOf(modelValue.value).toEqualTypeOf<string>();
+    expect(field).toBe(form.address.city);
+    modelValue.value = "Utrecht";
+    expect(form.address.city.value).toBe("Utrecht");
+  });
+
+  test("follows a field that is passed as a getter", () => {
+    const { first, last } = useForm({ first: "John", last: "Doe" });
+    const current = ref(first);
+    const result = useField(() => current.value);
+    const { modelValue, attrs } = result;
+    expect(modelValue.value).toBe("John");
+    current.value = last;
+    expect(modelValue.value).toBe("Doe");
+    expect(result.field).toBe(last);
+    expect(attrs.value.id).toMatch(/^last-\w+$/);
+    modelValue.value = "Smith";
+    expect(last.value).toBe("Smith");
+    expect(first.value).toBe("John");
+  });
+});
@@ -0,0 +1,226 @@
+import { computed, toRaw, toValue } from "vue";
+import type {
+  ComputedRef,
+  MaybeRefOrGetter,
+  Ref,
+  WritableComputedRef,
+} from "vue";
+import { generateRandomId } from "../utils/randomId";
+import { injectForm } from "./formContext";
+import { isValidationError } from "./lib/messages";
+import type { ValidationError } from "./lib/messages";
+import {
+  Field,
+  FieldPath,
+  InternalFormState,
+  PathValue,
+  Rule,
+} from "./useForm";
+
+export type UseFieldOptions<V, M = V> = {
+  /**
+   * The id of the input, defaults to a generated id. Set it when the id has to
+   * be the same on the server and the client.
+   */
+  id?: MaybeRefOrGetter<string | undefined>;
+  /**
+   * Converts the value of the field to the value of the input
+   */
+  format?: (value: V) => M;
+  /**
+   * Converts the value of the input to the value of the field
+   */
+  parse?: (value: M) => V;
+};
+
+export type FieldAttrs = {
+  id: string;
+  "aria-invalid": "true" | undefined;
+  "aria-describedby": string | undefined;
+  "aria-required": "true" | undefined;
+  minlength: number | undefined;
+  maxlength: number | undefined;
+  min: number | undefined;
+  max: number | undefined;
+  onBlur: (evt: FocusEvent) => void;
+  onFocus: (evt: FocusEvent) => void;
+};
+
+/**
+ * The message of an error: the message of a ValidationError, other errors as they are
+ */
+export type ErrorMessage<E> = 0 extends 1 & E
+  ? any
+  : E extends ValidationError
+  ? string
+  : E;
+
+export type UseFieldResult<
+  V,
+  T extends Record<string, unknown>,
+  M = V,
+  E = any
+> = {
+  field: Field<V, T, E>;
+  modelValue: WritableComputedRef<M>;
+  /**
+   * The first error of the field, the message for a structured error
+   */
+  errorMessage: ComputedRef<ErrorMessage<E> | undefined>;
+  /**
+   * The first warning of the field
+   */
+  warningMessage: ComputedRef<ErrorMessage<E> | undefined>;
+  id: string;
+  /**
+   * The id for the element that shows the error, it is used in aria-describedby
+   */
+  errorId: string;
+  /**
+   * One of the rules of the field makes it required
+   */
+  required: ComputedRef<boolean>;
+  onBlur: (evt: FocusEvent) => void;
+  onFocus: (evt: FocusEvent) => void;
+  /**
+   * The id, aria attributes and handlers, to bind to the input with v-bind
+   */
+  attrs: ComputedRef<FieldAttrs>;
+};
+
+/**
+ * Connects an input to a field. Pass the field, or the name of a field of the
+ * form of the nearest parent component that called provideForm. A ref or getter
+ * of a field, e.g. of a prop, is followed when it changes.
+ *
+ * @param {Field} field - The field.
+ * @param {UseFieldOptions} [options] - The id and transforms of the value for this input.
+ * @returns {UseFieldResult} The model value, handlers and attributes for the input.
+ */
+export function useField<V, T extends Record<string, unknown>, M = V, E = any>(
+  field: MaybeRefOrGetter<Field<V, T, E>>,
+  options?: UseFieldOptions<V, M>
+): UseFieldResult<V, T, M, E>;
+
+/**
+ * @param {string} name - The name of the field, can be a dot path.
+ * @param {UseFieldOptions} [options] - The id and transforms of the value for this input.
+ * @returns {UseFieldResult} The model value, handlers and attributes for the input.
+ */
+export function useField<
+  T extends Record<string, unknown>,
+  P extends FieldPath<T> = FieldPath<T>,
+  M = PathValue<T, P>
+>(
+  name: P,
+  options?: UseFieldOptions<PathValue<T, P>, M>
+): UseFieldResult<PathValue<T, P>, T, M>;
+
+export function useField(
+  fieldOrName:
+    | MaybeRefOrGetter<Field<unknown, Record<string, unknown>>>
+    | string,
+  options?: UseFieldOptions<unknown, unknown>
+): UseFieldResult<unknown, Record<string, unknown>, unknown> {
+  const injected =
+    typeof fieldOrName === "string" ? injectField(fieldOrName) : undefined;
+  const current = computed(
+    () =>
+      injected ??
+      toValue(fieldOrName as Field<unknown, Record<string, unknown>>)
+  );
+
+  const id = computed(() => toValue(options?.id) ?? fieldId(current.value));
+  const errorId = computed(() => `${id.value}-error`);
+
+  // the transforms of the input replace the ones of the field
+  const modelValue = computed({
+    get: () =>
+      options?.format
+        ? options.format(current.value.value)
+        : current.value.displayValue,
+    set: (value) => {
+      if (options?.parse) {
+        current.value.value = options.parse(value);
+      } else {
+        current.value.displayValue = value;
+      }
+    },
+  });
+  const messageOf = (error: unknown) =>
+    isValidationError(error) ? error.message : error;
+  const errorMessage = computed(() => messageOf(current.value.errors[0]));
+  const warningMessage = computed(() => messageOf(current.value.warnings[0]));
+  const rules = computed(() => current.value.rules as Rule<unknown, any>[]);
+  const required = computed(() => rules.value.some((rule) => rule.required));
+  // constraints of the built-in rules, e.g. maxLength becomes maxlength
+  const param = (name: string, param: string) =>
+    rules.value.find((rule) => rule.name === name)?.params?.[param] as
+      | number
+      | undefined;
+  const onBlur = (evt: FocusEvent) => current.value.blur(evt);
+  const onFocus = (evt: FocusEvent) => current.value.focus(evt);
+
+  return {
+    // getters, so the result follows a field that is passed as a getter
+    get field() {
+      return current.value;
+    },
+    modelValue,
+    errorMessage,
+    warningMessage,
+    get id() {
+      return id.value;
+    },
+    get errorId() {
+      return errorId.value;
+    },
+    required,
+    onBlur,
+    onFocus,
+    attrs: computed(() => ({
+      id: id.value,
+      "aria-invalid": current.value.errors.length ? "true" : undefined,
+      "aria-describedby": current.value.errors.length
+        ? errorId.value
+        : undefined,
+      "aria-required": required.value ? "true" : undefined,
+      minlength: param("minLength", "min"),
+      maxlength: param("maxLength", "max"),
+      min: param("min", "min"),
+      max: param("max", "max"),
+      onBlur,
+      onFocus,
+    })),
+  };
+}
+
+// one id per field, so an input and its error component refer to each other
+const fieldIds = new WeakMap<object, string>();
+
+function fieldId(field: Field<unknown, Record<string, unknown>>) {
+  let id = fieldIds.get(toRaw(field));
+  if (!id) {
+    id = `${field.name.replace(/\W/g, "-")}-${generateRandomId()}`;
+    fieldIds.set(toRaw(field), id);
+  }
+  return id;
+}
+
+function injectField(name: string) {
+  return fieldByName(injectForm().formState, name);
+}
+
+/**
+ * Returns the field with the given name, throws when the form has no such field
+ */
+export function fieldByName(formState: Ref<unknown>, name: string) {
+  const field = (formState as Ref<InternalFormState<Record<string, unknown>>>)
+    .value.fields[name];
+  if (!field) {
+    throw new Error(
+      `UseField: Field with name ${name} does not exist in the form.`
+    );
+  }
+  return field as Field<unknown, Record<string, unknown>>;
+}
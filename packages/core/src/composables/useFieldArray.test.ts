@@ -0,0 +1,261 @@
+import flushPromises from "flush-promises";
+import { describe, expect, test } from "vitest";
+import { nextTick, ref } from "vue";
+import { Messages } from "./lib/messages";
+import { required } from "./lib/rules";
+import { useFieldArray } from "./useFieldArray";
+import { useForm } from "./useForm";
+
+const isRequired = (value: string) => (value === "" ? "required" : true);
+
+const createForm = () =>
+  useForm({
+    name: "order",
+    lines: [
+      { product: "apple", amount: 1 },
+      { product: "pear", amount: 2 },
+    ],
+  });
+
+describe("useFieldArray", () => {
+  test("creates a row with its own key and fields for every item", () => {
+    const form = createForm();
+    const { fields } = useFieldArray(form, "lines");
+    expect(fields.value.length).toBe(2);
+    expect(fields.value[0].key).not.toEqual(fields.value[1].key);
+    expect(fields.value[1].form.product.value).toBe("pear");
+  });
+
+  test("returns the same rows when used twice for a field", () => {
+    const form = createForm();
+    const first = useFieldArray(form, "lines");
+    const second = useFieldArray(form, "lines");
+    expect(second).toBe(first);
+  });
+
+  test("throws when the field does not exist", () => {
+    const form = createForm();
+    expect(() => useFieldArray(form, "other" as any)).toThrowError(
+      "UseFieldArray: Field with name other does not exist in the form."
+    );
+  });
+
+  test("changes to a row update the form values", async () => {
+    const form = createForm();
+    const { fields } = useFieldArray(form, "lines");
+    fields.value[0].form.amount.value = 5;
+    await nextTick();
+    expect(form.values.value.lines).toEqual([
+      { product: "apple", amount: 5 },
+      { product: "pear", amount: 2 },
+    ]);
+    expect(form.lines.dirty).toBe(true);
+  });
+
+  test("append, prepend and insert add rows", () => {
+    const form = createForm();
+    const { fields, append, prepend, insert } = useFieldArray(form, "lines");
+    append({ product: "kiwi", amount: 3 });
+    prepend({ product: "plum", amount: 4 });
+    insert(1, { product: "lime", amount: 5 });
+    expect(fields.value.map((row) => row.form.product.value)).toEqual([
+      "plum",
+      "lime",
+      "apple",
+      "pear",
+      "kiwi",
+    ]);
+    expect(form.lines.value.length).toBe(5);
+  });
+
+  test("remove, move and swap keep state attached to the row", async () => {
+    const form = createForm();
+    const { fields, remove, move, swap, append } = useFieldArray(
+      form,
+      "lines",
+      { rules: { product: [isRequired] } }
+    );
+    append({ product: "kiwi", amount: 3 });
+    const [apple, pear, kiwi] = fields.value;
+    pear.form.product.value = "";
+    apple.form.product.blur({} as any);
+    await flushPromises();
+
+    move(1, 2);
+    expect(fields.value).toEqual([apple, kiwi, pear]);
+    swap(0, 2);
+    expect(fields.value).toEqual([pear, kiwi, apple]);
+    await flushPromises();
+
+    expect(pear.form.product.errors).toEqual(["required"]);
+    expect(pear.form.product.dirty).toBe(true);
+    expect(apple.form.product.touched).toBe(true);
+    expect(form.formState.value.errorFields).toEqual({
+      "lines.0.product": ["required"],
+    });
+
+    remove(0);
+    await flushPromises();
+    expect(fields.value).toEqual([kiwi, apple]);
+    expect(form.values.value.lines).toEqual([
+      { product: "kiwi", amount: 3 },
+      { product: "apple", amount: 1 },
+    ]);
+    expect(form.formState.value.valid).toBe(true);
+  });
+
+  test("remove, move, swap and insert ignore indices without a row", async () => {
+    const form = createForm();
+    const { fields, remove, move, swap, insert } = useFieldArray(form, "lines");
+    const rows = fields.value;
+    insert(-1, { product: "kiwi", amount: 3 });
+    insert(3, { product: "kiwi", amount: 3 });
+    insert(0.5, { product: "kiwi", amount: 3 });
+    move(0, 99);
+    move(-1, 0);
+    swap(0, 99);
+    swap(2, 1);
+    remove(5);
+    await nextTick();
+    expect(fields.value).toEqual(rows);
+    expect(form.values.value.lines).toEqual([
+      { product: "apple", amount: 1 },
+      { product: "pear", amount: 2 },
+    ]);
+  });
+
+  test("changes to rows are undone by the form, rows keep their state", async () => {
+    const form = useForm(
+      {
+        lines: [
+          { product: "apple", amount: 1 },
+          { product: "pear", amount: 2 },
+        ],
+      },
+      { history: { coalesce: 0 } }
+    );
+    const { fields, move } = useFieldArray(form, "lines");
+    const [apple, pear] = fields.value;
+    pear.form.product.blur({} as FocusEvent);
+    apple.form.amount.value = 5;
+    await nextTick();
+    expect(apple.form.canUndo.value).toBe(false);
+    expect(form.canUndo.value).toBe(true);
+
+    move(0, 1);
+    await nextTick();
+    form.undo();
+    await nextTick();
+    expect(fields.value.map((row) => row.key)).toEqual([apple.key, pear.key]);
+    expect(pear.form.product.touched).toBe(true);
+    expect(apple.form.amount.dirty).toBe(true);
+
+    form.undo();
+    await flushPromises();
+    expect(fields.value[0]).toBe(apple);
+    expect(apple.form.amount.value).toBe(1);
+    expect(apple.form.amount.dirty).toBe(false);
+    expect(form.values.value.lines).toEqual([
+      { product: "apple", amount: 1 },
+      { product: "pear", amount: 2 },
+    ]);
+  });
+
+  test("rows use the messages of the form", async () => {
+    const messages = ref<Messages>({ required: "Verplicht" });
+    const form = useForm({ lines: [{ product: "" }] }, { messages });
+    const { fields } = useFieldArray(form, "lines", {
+      rules: { product: [required()] },
+    });
+    await form.validateForm();
+    const row = fields.value[0].form;
+    expect(row.product.errors[0].message).toBe("Verplicht");
+    expect(form.formState.value.errors[0].message).toBe("Verplicht");
+
+    messages.value = { required: "Required!" };
+    expect(row.product.errors[0].message).toBe("Required!");
+  });
+
+  test("validateForm validates all rows", async () => {
+    const form = createForm();
+    const { fields } = useFieldArray(form, "lines", {
+      rules: { product: [isRequired] },
+    });
+    form.setFields({ lines: [{ product: "", amount: 1 }] });
+    await nextTick();
+    expect(fields.value.length).toBe(1);
+
+    const result = await form.validateForm();
+    expect(result.valid).toBe(false);
+    expect(result.errorFields).toEqual({ "lines.0.product": ["required"] });
+  });
+
+  test("rows of a disabled array field are not validated", async () => {
+    const form = createForm();
+    useFieldArray(form, "lines", { rules: { product: [isRequired] } });
+    form.setFields({ lines: [{ product: "", amount: 1 }] });
+    await nextTick();
+    expect((await form.validateForm()).valid).toBe(false);
+
+    form.lines.disabled = true;
+    await flushPromises();
+    expect(form.formState.value.errors).toEqual([]);
+    expect(form.formState.value.valid).toBe(true);
+    const result = await form.validateForm();
+    expect(result.valid).toBe(true);
+    expect(result.errorFields).toEqual({});
+
+    form.lines.disabled = false;
+    await flushPromises();
+    expect(form.formState.value.errorFields).toEqual({
+      "lines.0.product": ["required"],
+    });
+  });
+
+  test("setErrors adds errors to rows", () => {
+    const form = createForm();
+    const { fields } = useFieldArray(form, "lines");
+    form.setErrors({ "lines.1.product": "out of stock" });
+    expect(fields.value[1].form.product.errors).toEqual(["out of stock"]);
+    expect(form.formState.value.errorFields).toEqual({
+      "lines.1.product": ["out of stock"],
+    });
+    // @ts-expect-error not a field of a row
+    form.setErrors({ "lines.1.price": "unknown" });
+  });
+
+  test("resetForm rebuilds the rows", async () => {
+    const form = createForm();
+    const { fields, remove } = useFieldArray(form, "lines");
+    remove(0);
+    fields.value[0].form.amount.value = 10;
+    await nextTick();
+
+    form.resetForm();
+    await flushPromises();
+    expect(fields.value.map((row) => row.form.values.value)).toEqual([
+      { product: "apple", amount: 1 },
+      { product: "pear", amount: 2 },
+    ]);
+    expect(fields.value[1].form.amount.dirty).toBe(false);
+  });
+
+  test("removeField stops the rows of the array field", async () => {
+    const form = createForm();
+    const { fields } = useFieldArray(form, "lines");
+    const rowForm = fields.value[0].form;
+    const lines = form.lines;
+    form.removeField("lines");
+    expect(fields.value).toEqual([]);
+
+    rowForm.amount.value = 10;
+    await nextTick();
+    expect(lines.value).toEqual([
+      { product: "apple", amount: 1 },
+      { product: "pear", amount: 2 },
+    ]);
+
+    form.addField("lines", [{ product: "kiwi", amount: 3 }]);
+    expect(useFieldArray(form, "lines").fields.value).toHaveLength(1);
+  });
+});
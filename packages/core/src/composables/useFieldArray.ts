@@ -0,0 +1,272 @@
+import { computed, effectScope, markRaw, shallowRef, watch } from "vue";
+import type { EffectScope, Ref } from "vue";
+import { cloneDeep } from "../utils/cloneDeep";
+import { deepEqual } from "../utils/deepEqual";
+import { generateRandomId } from "../utils/randomId";
+import { Messages } from "./lib/messages";
+import { collectErrors } from "./lib/validation";
+import {
+  FieldArrayRegistration,
+  FieldPath,
+  FormResult,
+  InitialFormState,
+  InternalFormState,
+  PathValue,
+  formFieldArrays,
+  formMessages,
+  formMode,
+  formReValidateMode,
+  runInFormScope,
+  useForm,
+} from "./useForm";
+
+/**
+ * Field names of a form that hold an array of objects
+ */
+export type FieldArrayPath<T extends Record<string, unknown>> = {
+  [P in FieldPath<T>]: PathValue<T, P> extends Record<string, unknown>[]
+    ? P
+    : never;
+}[FieldPath<T>];
+
+/**
+ * Field names in the rows of the field arrays of a form, e.g. "lines.0.product"
+ */
+export type FieldArrayRowPath<T extends Record<string, unknown>> = {
+  [P in FieldArrayPath<T>]: `${P}.${number}.${FieldPath<FieldArrayItem<T, P>>}`;
+}[FieldArrayPath<T>];
+
+export type FieldArrayItem<
+  T extends Record<string, unknown>,
+  P extends string
+> = PathValue<T, P> extends (infer I extends Record<string, unknown>)[]
+  ? I
+  : never;
+
+export type FieldArrayRow<I extends Record<string, unknown>> = {
+  key: string;
+  form: FormResult<I>;
+};
+
+export type FieldArrayOptions<I extends Record<string, unknown>> = {
+  rules?: Parameters<FormResult<I>["setRules"]>[0];
+};
+
+export type FieldArrayResult<I extends Record<string, unknown>> = {
+  fields: Readonly<Ref<FieldArrayRow<I>[]>>;
+  append: (value: I) => void;
+  prepend: (value: I) => void;
+  insert: (index: number, value: I) => void;
+  remove: (index: number) => void;
+  move: (from: number, to: number) => void;
+  swap: (indexA: number, indexB: number) => void;
+};
+
+/**
+ * Splits an array field of a form into rows. Every row gets its own key and
+ * its own form, so errors, dirty and touched stay with the row when rows are
+ * reordered. The array field itself keeps holding the values of all rows.
+ *
+ * @param {FormResult<T>} form - The form the array field belongs to.
+ * @param {string} name - The name of the array field.
+ * @param {FieldArrayOptions} [options] - Rules that are set on every row.
+ * @returns {FieldArrayResult} The rows and functions to change them.
+ */
+export function useFieldArray<
+  T extends Record<string, unknown>,
+  P extends FieldArrayPath<T>
+>(
+  form: FormResult<T>,
+  name: P,
+  options?: FieldArrayOptions<FieldArrayItem<T, P>>
+): FieldArrayResult<FieldArrayItem<T, P>> {
+  type I = FieldArrayItem<T, P>;
+
+  const formState = form.formState as Ref<InternalFormState<T>>;
+  const existing = formState.value[formFieldArrays][name];
+  if (existing) {
+    return existing.result as FieldArrayResult<I>;
+  }
+
+  const field = formState.value.fields[name as string];
+  if (!field) {
+    throw new Error(
+      `UseFieldArray: Field with name ${name} does not exist in the form.`
+    );
+  }
+
+  const fields = shallowRef<FieldArrayRow<I>[]>([]);
+  const scopes = new Map<string, EffectScope>();
+
+  // the value last written to the array field by the rows
+  let syncedValue: unknown;
+
+  const sync = () => {
+    syncedValue = fields.value.map((row) => cloneDeep(row.form.values.value));
+    field.value = cloneDeep(syncedValue) as T[keyof T];
+  };
+
+  const createRow = (item: I): FieldArrayRow<I> => {
+    const scope = runInFormScope(formState, () => effectScope());
+    const rowForm = scope.run(() => {
+      const rowForm = useForm<I>(cloneDeep(item) as InitialFormState<I>, {
+        mode: formState.value[formMode],
+        reValidateMode: formState.value[formReValidateMode],
+        // follows the messages of the form, also when they are switched
+        messages: computed(
+          () => formState.value[formMessages]
+        ) as Ref<Messages>,
+      });
+      if (options?.rules) {
+        rowForm.setRules(options.rules);
+      }
+      watch(rowForm.values, sync, { deep: true });
+      watch(
+        () => rowForm.formState.value.errors,
+        () => collectErrors(formState)
+      );
+      // rows follow the submit state of the form, for the reValidateMode
+      watch(
+        () => formState.value.submitCount,
+        (submitCount) => {
+          rowForm.formState.value.submitCount = submitCount;
+        },
+        { immediate: true }
+      );
+      watch(
+        () => rowForm.formState.value.touched,
+        (touched) => {
+          if (touched) {
+            field.touched = true;
+            formState.value.touched = true;
+          }
+        }
+      );
+      return rowForm;
+    }) as FormResult<I>;
+
+    const key = generateRandomId();
+    scopes.set(key, scope);
+    return markRaw({ key, form: rowForm });
+  };
+
+  const setRows = (rows: FieldArrayRow<I>[]) => {
+    const keys = rows.map((row) => row.key);
+    for (const [key, scope] of scopes) {
+      if (!keys.includes(key)) {
+        scope.stop();
+        scopes.delete(key);
+      }
+    }
+    fields.value = rows;
+  };
+
+  const rebuild = () => {
+    syncedValue = cloneDeep(field.value);
+    setRows(((field.value ?? []) as I[]).map(createRow));
+  };
+
+  // rows keep their state when a value is set from outside (setFields, undo):
+  // rows with the same values are reused, e.g. when a move is undone, other
+  // rows take the value at their index
+  const reconcile = () => {
+    const items = cloneDeep(field.value ?? []) as I[];
+    syncedValue = cloneDeep(items);
+    const unused = new Set(fields.value);
+    const hasValues = (row: FieldArrayRow<I> | undefined, item: I) =>
+      !!row && unused.has(row) && deepEqual(row.form.values.value, item);
+
+    const same = items.map((item, index) => {
+      const row = hasValues(fields.value[index], item)
+        ? fields.value[index]
+        : [...unused].find((row) => hasValues(row, item));
+      if (row) {
+        unused.delete(row);
+      }
+      return row;
+    });
+    const rows = items.map((item, index) => {
+      const row = fields.value[index];
+      if (same[index]) {
+        return same[index]!;
+      }
+      if (row && unused.has(row)) {
+        unused.delete(row);
+        (row.form as FormResult<any>).setFields(item, { validate: true });
+        return row;
+      }
+      return createRow(item);
+    });
+    setRows(rows);
+    collectErrors(formState);
+  };
+
+  const update = (rows: FieldArrayRow<I>[]) => {
+    setRows(rows);
+    sync();
+    collectErrors(formState);
+  };
+
+  const stopWatch = runInFormScope(formState, () =>
+    watch(
+      () => field.value,
+      (value) => {
+        if (!deepEqual(value, syncedValue)) {
+          reconcile();
+        }
+      },
+      { deep: true }
+    )
+  );
+
+  rebuild();
+
+  // like remove, move, swap and insert ignore indices without a row
+  const inRange = (index: number) =>
+    Number.isInteger(index) && index >= 0 && index < fields.value.length;
+
+  const result: FieldArrayResult<I> = {
+    fields,
+    append: (value) => update([...fields.value, createRow(value)]),
+    prepend: (value) => update([createRow(value), ...fields.value]),
+    insert: (index, value) => {
+      // inserting after the last row is allowed, like append
+      if (!inRange(index) && index !== fields.value.length) {
+        return;
+      }
+      const rows = [...fields.value];
+      rows.splice(index, 0, createRow(value));
+      update(rows);
+    },
+    remove: (index) => update(fields.value.filter((_, i) => i !== index)),
+    move: (from, to) => {
+      if (!inRange(from) || !inRange(to)) {
+        return;
+      }
+      const rows = [...fields.value];
+      const [row] = rows.splice(from, 1);
+      rows.splice(to, 0, row);
+      update(rows);
+    },
+    swap: (indexA, indexB) => {
+      if (!inRange(indexA) || !inRange(indexB)) {
+        return;
+      }
+      const rows = [...fields.value];
+      [rows[indexA], rows[indexB]] = [rows[indexB], rows[indexA]];
+      update(rows);
+    },
+  };
+
+  formState.value[formFieldArrays][name] = markRaw<FieldArrayRegistration>({
+    forms: () => fields.value.map((row) => row.form as FormResult<any>),
+    reset: rebuild,
+    dispose: () => {
+      stopWatch();
+      setRows([]);
+    },
+    result,
+  });
+
+  return result;
+}
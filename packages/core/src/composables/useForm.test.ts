@@ -1,8 +1,18 @@
 // sum.test.js
 import flushPromises from "flush-promises";
-import { describe, expect, test, vi } from "vitest";
-import { nextTick, watch } from "vue";
-import { formValidationLock, getInitState, setIsServer, store, useForm } from "./useForm";
+import { describe, expect, expectTypeOf, test, vi } from "vitest";
+import { effectScope, nextTick, ref, watch } from "vue";
+import {
+  destroyForm,
+  formValidationLock,
+  getInitState,
+  setIsServer,
+  store,
+  useForm,
+} from "./useForm";
+import { ValidationError } from "./lib/messages";
+import { required } from "./lib/rules";
+import { fieldErrors } from "./lib/validation";
 
 
 
@@ -50,6 +60,24 @@ describe("useForm", () => {
       });
     });
 
+    test("sets initial state with nested objects", () => {
+      const validationFunction = () => "some error";
+      const initState = {
+        address: {
+          street: "Main street",
+          city: { value: "Amsterdam", rules: [validationFunction] },
+        },
+        location: { value: { lat: 1, lng: 2 } },
+      };
+      expect(getInitState(initState)).toEqual({
+        fields: {
+          "address.street": { value: "Main street" },
+          "address.city": { value: "Amsterdam", rules: [validationFunction] },
+          location: { value: { lat: 1, lng: 2 } },
+        },
+      });
+    });
+
     test("raises error on initial state when a reserved keyword is used", () => {
       const initState = {
         formState: "hello",
@@ -87,6 +115,8 @@ describe("useForm", () => {
               "valid": true,
               "focused": false,
               "errors": [],
+              "warnings": [],
+              "ruleResults": {},
               "pending": false
             },
             "numberInput": {
@@ -100,6 +130,8 @@ describe("useForm", () => {
               "valid": true,
               "focused": false,
               "errors": [],
+              "warnings": [],
+              "ruleResults": {},
               "pending": false
             }
           },
@@ -118,7 +150,13 @@ describe("useForm", () => {
           "pending": false,
           "touched": false,
           "errors": [],
-          "errorFields": {}
+          "errorFields": {},
+          "warnings": [],
+          "warningFields": {},
+          "dirtyFields": {},
+          "submitting": false,
+          "submitted": false,
+          "submitCount": 0
         }
       `);
     });
@@ -151,6 +189,57 @@ describe("useForm", () => {
     });
   });
 
+  describe("lifecycle", () => {
+    test("a named form is disposed when the last consumer is unmounted", async () => {
+      const first = effectScope();
+      const second = effectScope();
+      const form = first.run(() => useForm("lifecycle", { name: "" }))!;
+      second.run(() => useForm("lifecycle"));
+
+      first.stop();
+      expect(store.value.lifecycle).toBe(form);
+
+      second.stop();
+      expect(store.value.lifecycle).toBeUndefined();
+      form.name.value = "John";
+      await nextTick();
+      expect(form.formState.value.dirty).toBe(false);
+    });
+
+    test("keepAlive keeps the form after the last consumer is unmounted", () => {
+      const scope = effectScope();
+      const form = scope.run(() =>
+        useForm("lifecycle", { name: "" }, { keepAlive: true })
+      )!;
+      scope.stop();
+      expect(store.value.lifecycle).toBe(form);
+
+      destroyForm("lifecycle");
+      expect(store.value.lifecycle).toBeUndefined();
+    });
+
+    test("a named form created outside a component is kept", () => {
+      const form = useForm("lifecycle", { name: "" });
+      const scope = effectScope();
+      scope.run(() => useForm("lifecycle"));
+      scope.stop();
+      expect(store.value.lifecycle).toBe(form);
+      form.dispose();
+      expect(store.value.lifecycle).toBeUndefined();
+    });
+
+    test("dispose stops the watchers of added fields", async () => {
+      const { addField, dispose } = useForm({ name: "" });
+      const rules = vi.fn(() => true);
+      const email = addField("email", { value: "", rules: [rules] });
+      dispose();
+      email.value = "john@example.com";
+      await flushPromises();
+      expect(rules).not.toHaveBeenCalled();
+      expect(email.dirty).toBe(false);
+    });
+  });
+
   describe("validations", () => {
     test("setValidations", async () => {
       const { someInput, setRules, formState, validateForm } = useForm("form", {
@@ -247,6 +336,448 @@ describe("useForm", () => {
     });
   });
 
+  describe("nested fields", () => {
+    const createNestedForm = () =>
+      useForm({
+        name: "",
+        address: {
+          street: "",
+          city: "Amsterdam",
+        },
+        tags: ["a"],
+      });
+
+    test("exposes subfields with a dot path name", () => {
+      const { address, formState } = createNestedForm();
+      expect(address.street.name).toBe("address.street");
+      expect(address.city.value).toBe("Amsterdam");
+      expect(Object.keys(formState.value.fields)).toEqual([
+        "name",
+        "address.street",
+        "address.city",
+        "tags",
+      ]);
+    });
+
+    test("builds nested values", async () => {
+      const { address, values } = createNestedForm();
+      address.street.value = "Main street";
+      await nextTick();
+      expect(values.value).toEqual({
+        name: "",
+        address: { street: "Main street", city: "Amsterdam" },
+        tags: ["a"],
+      });
+    });
+
+    test("subfields have their own state and rules", async () => {
+      const { address, setRules, formState } = createNestedForm();
+      const isRequired = (value: string) => (value === "" ? "required" : true);
+      setRules({ "address.city": [isRequired] });
+      address.city.value = "";
+      await flushPromises();
+
+      expect(address.city.dirty).toBe(true);
+      expect(address.city.errors).toEqual(["required"]);
+      expect(address.street.dirty).toBe(false);
+      expect(address.street.errors).toEqual([]);
+      expect(formState.value.errorFields).toEqual({
+        "address.city": ["required"],
+      });
+    });
+
+    test("setFields accepts nested objects and dot paths", async () => {
+      const { address, setFields } = createNestedForm();
+      setFields({ address: { street: "Main street" } });
+      expect(address.street.value).toBe("Main street");
+      expect(address.city.value).toBe("Amsterdam");
+      setFields({ "address.city": "Utrecht" });
+      expect(address.city.value).toBe("Utrecht");
+    });
+
+    test("resetForm resets subfields", async () => {
+      const { address, resetForm } = createNestedForm();
+      address.city.value = "Utrecht";
+      await nextTick();
+      resetForm();
+      await flushPromises();
+      expect(address.city.value).toBe("Amsterdam");
+      expect(address.city.dirty).toBe(false);
+    });
+
+    test("numeric keys stay object keys", async () => {
+      const { years, values, getDirtyValues } = useForm({
+        years: { "2020": "a", "2021": "b" },
+      });
+      expect(values.value).toEqual({ years: { "2020": "a", "2021": "b" } });
+      expect(Array.isArray(values.value.years)).toBe(false);
+
+      years["2021"].value = "c";
+      await nextTick();
+      expect(getDirtyValues()).toEqual({ years: { "2021": "c" } });
+    });
+  });
+
+  describe("setErrors", () => {
+    const isRequired = (value: string) => (value === "" ? "required" : true);
+
+    test("adds external errors to fields and the form", () => {
+      const { email, formState, setErrors } = useForm({
+        email: "john@example.com",
+        name: "John",
+      });
+      setErrors({ email: "already taken", form: ["server error"] });
+
+      expect(email.errors).toEqual(["already taken"]);
+      expect(email.valid).toBe(false);
+      expect(formState.value.errorFields).toEqual({
+        email: ["already taken"],
+      });
+      expect(formState.value.errors).toEqual([
+        "already taken",
+        "server error",
+      ]);
+    });
+
+    test("fieldErrors sets the errors of a field named form", () => {
+      const { form, formState, setErrors } = useForm({ form: "contact" });
+      setErrors({
+        ...fieldErrors({ form: "unknown form" }),
+        form: "server error",
+      });
+      expect(form.errors).toEqual(["unknown form"]);
+      expect(formState.value.errors).toEqual(["unknown form", "server error"]);
+      expect(formState.value.errorFields).toEqual({ form: ["unknown form"] });
+    });
+
+    test("external errors are merged with rule errors", async () => {
+      const { email, name, formState, setErrors } = useForm({
+        email: { value: "", rules: [isRequired] },
+        name: "",
+      });
+      email.value = "x";
+      await nextTick();
+      email.value = "";
+      await flushPromises();
+      setErrors({ email: ["already taken"] });
+      expect(email.errors).toEqual(["required", "already taken"]);
+
+      // validation of another field keeps the external errors
+      name.value = "John";
+      await flushPromises();
+      expect(formState.value.errors).toEqual(["required", "already taken"]);
+    });
+
+    test("external errors are removed when the field value changes", async () => {
+      const { email, formState, setErrors } = useForm({
+        email: { value: "x", rules: [isRequired] },
+      });
+      setErrors({ email: ["already taken"], form: "server error" });
+      email.value = "";
+      await flushPromises();
+
+      expect(email.errors).toEqual(["required"]);
+      expect(formState.value.errors).toEqual(["required", "server error"]);
+    });
+
+    test("external errors are removed when the form is validated", async () => {
+      const { email, formState, setErrors, validateForm } = useForm({
+        email: "john@example.com",
+      });
+      setErrors({ email: ["already taken"], form: "server error" });
+      const result = await validateForm();
+
+      expect(result.valid).toBe(true);
+      expect(email.errors).toEqual([]);
+      expect(formState.value.errors).toEqual([]);
+    });
+  });
+
+  describe("validation modes", () => {
+    const isRequired = (value: string) => (value === "" ? "required" : true);
+
+    test("onBlur validates when the field loses focus", async () => {
+      const { someInput } = useForm(
+        { someInput: { value: "hello", rules: [isRequired] } },
+        { mode: "onBlur" }
+      );
+      someInput.value = "";
+      await flushPromises();
+      expect(someInput.errors).toEqual([]);
+
+      someInput.blur({} as FocusEvent);
+      await flushPromises();
+      expect(someInput.errors).toEqual(["required"]);
+    });
+
+    test("onTouched validates on change after the first blur", async () => {
+      const { someInput } = useForm(
+        { someInput: { value: "hello", rules: [isRequired] } },
+        { mode: "onTouched" }
+      );
+      someInput.value = "";
+      await flushPromises();
+      expect(someInput.errors).toEqual([]);
+
+      someInput.blur({} as FocusEvent);
+      await flushPromises();
+      expect(someInput.errors).toEqual(["required"]);
+
+      someInput.value = "hello";
+      await flushPromises();
+      expect(someInput.errors).toEqual([]);
+    });
+
+    test("onSubmit only validates on submit, then uses reValidateMode", async () => {
+      const { someInput, handleSubmit } = useForm(
+        { someInput: { value: "hello", rules: [isRequired] } },
+        { mode: "onSubmit", reValidateMode: "onBlur" }
+      );
+      someInput.value = "";
+      someInput.blur({} as FocusEvent);
+      await flushPromises();
+      expect(someInput.errors).toEqual([]);
+
+      await handleSubmit(() => {})();
+      expect(someInput.errors).toEqual(["required"]);
+
+      someInput.value = "hello";
+      await flushPromises();
+      expect(someInput.errors).toEqual(["required"]);
+
+      someInput.blur({} as FocusEvent);
+      await flushPromises();
+      expect(someInput.errors).toEqual([]);
+    });
+
+    test("a field can override the mode of the form", async () => {
+      const { someInput, otherInput } = useForm(
+        {
+          someInput: { value: "hello", rules: [isRequired], mode: "onChange" },
+          otherInput: { value: "hello", rules: [isRequired] },
+        },
+        { mode: "onSubmit" }
+      );
+      someInput.value = "";
+      otherInput.value = "";
+      await flushPromises();
+      expect(someInput.errors).toEqual(["required"]);
+      expect(otherInput.errors).toEqual([]);
+    });
+  });
+
+  describe("dirty", () => {
+    test("a field is not dirty when the value is changed back", async () => {
+      const { someInput, formState } = useForm({ someInput: "hello" });
+      someInput.value = "hello world";
+      await nextTick();
+      expect(someInput.dirty).toBe(true);
+      expect(formState.value.dirty).toBe(true);
+      expect(formState.value.dirtyFields).toEqual({ someInput: true });
+
+      someInput.value = "hello";
+      await nextTick();
+      expect(someInput.dirty).toBe(false);
+      expect(formState.value.dirty).toBe(false);
+      expect(formState.value.dirtyFields).toEqual({});
+    });
+
+    test("compares objects and arrays by value", async () => {
+      const { tags, formState } = useForm({ tags: ["a", "b"] });
+      tags.value = ["a"];
+      await nextTick();
+      expect(tags.dirty).toBe(true);
+      tags.value = ["a", "b"];
+      await nextTick();
+      expect(tags.dirty).toBe(false);
+      expect(formState.value.dirty).toBe(false);
+    });
+
+    test("getDirtyValues returns only changed values", async () => {
+      const { name, address, getDirtyValues } = useForm({
+        name: "John",
+        address: { street: "Main street", city: "Amsterdam" },
+      });
+      name.value = "Jane";
+      address.city.value = "Utrecht";
+      await nextTick();
+      name.value = "John";
+      await nextTick();
+      expect(getDirtyValues()).toEqual({ address: { city: "Utrecht" } });
+    });
+  });
+
+  describe("dynamic fields", () => {
+    const isRequired = (value: string) => (value === "" ? "required" : true);
+
+    test("addField adds a field with its own rules", async () => {
+      const { addField, values, formState, validateForm } = useForm({
+        name: "",
+      });
+      const company = addField("company", {
+        value: "",
+        rules: [isRequired],
+      });
+      expect(company.name).toBe("company");
+      expect(values.value).toEqual({ name: "", company: "" });
+
+      const result = await validateForm();
+      expect(result.errorFields).toEqual({ company: ["required"] });
+
+      company.value = "Acme";
+      await flushPromises();
+      expect(company.dirty).toBe(true);
+      expect(formState.value.valid).toBe(true);
+    });
+
+    test("addField adds a group of fields by dot path", () => {
+      const { addField, values, formState } = useForm({ name: "" });
+      const address = addField("details.address", { street: "", city: "" });
+      expect(address.street.name).toBe("details.address.street");
+      expect(Object.keys(formState.value.fields)).toEqual([
+        "name",
+        "details.address.street",
+        "details.address.city",
+      ]);
+      expect(values.value).toEqual({
+        name: "",
+        details: { address: { street: "", city: "" } },
+      });
+    });
+
+    test("addField throws when the field exists", () => {
+      const { addField } = useForm({ name: "" });
+      expect(() => addField("name", "")).toThrowError(
+        "UseForm: Field with name name already exists."
+      );
+    });
+
+    test("removeField removes the field from values and validation", async () => {
+      const { addField, removeField, values, formState, handleSubmit } =
+        useForm({ name: "John" });
+      const company = addField("company", { value: "", rules: [isRequired] });
+      await company.validate();
+      expect(formState.value.errorFields).toEqual({ company: ["required"] });
+
+      removeField("company");
+      await nextTick();
+      expect(formState.value.fields).not.toHaveProperty("company");
+      expect(formState.value.errorFields).toEqual({});
+      expect(formState.value.valid).toBe(true);
+
+      const onValid = vi.fn();
+      await handleSubmit(onValid)();
+      expect(onValid.mock.calls[0][0]).toEqual({ name: "John" });
+      expect(values.value).toEqual({ name: "John" });
+    });
+
+    test("removed fields stop watching their value", async () => {
+      const { addField, removeField, formState } = useForm({ name: "" });
+      const company = addField("company", "");
+      removeField("company");
+      company.value = "Acme";
+      await nextTick();
+      expect(company.dirty).toBe(false);
+      expect(formState.value.dirty).toBe(false);
+    });
+
+    test("removeField with keepValue restores the value when added again", async () => {
+      const { addField, removeField, resetForm } = useForm({ name: "" });
+      const company = addField("company", "");
+      company.value = "Acme";
+      await nextTick();
+
+      removeField("company", { keepValue: true });
+      const restored = addField("company", "");
+      expect(restored.value).toBe("Acme");
+      expect(restored.dirty).toBe(true);
+
+      resetForm();
+      expect(restored.value).toBe("");
+    });
+  });
+
+  describe("disabled fields", () => {
+    const isRequired = (value: string) => (value === "" ? "required" : true);
+
+    const createBusinessForm = () =>
+      useForm<{ type: string; company: string }>({
+        type: "private",
+        company: {
+          value: "",
+          rules: [isRequired],
+          disabled: (formState) => formState.value.fields.type.value !== "business",
+        },
+      });
+
+    test("disabled fields are not validated", async () => {
+      const { company, type, validateForm } = createBusinessForm();
+      expect(company.disabled).toBe(true);
+      expect(await validateForm()).toEqual({
+        valid: true,
+        errors: [],
+        errorFields: {},
+        warnings: [],
+        warningFields: {},
+        ruleResults: {},
+      });
+
+      type.value = "business";
+      await flushPromises();
+      expect(company.disabled).toBe(false);
+      expect((await validateForm()).errorFields).toEqual({
+        company: ["required"],
+      });
+    });
+
+    test("changes of disabled fields are not validated", async () => {
+      const { company } = createBusinessForm();
+      company.value = "Acme";
+      await flushPromises();
+      company.value = "";
+      await flushPromises();
+      expect(company.errors).toEqual([]);
+    });
+
+    test("errors are cleared when a field gets disabled", async () => {
+      const { company, type, formState, validateForm } = createBusinessForm();
+      type.value = "business";
+      await flushPromises();
+      await validateForm();
+      expect(formState.value.valid).toBe(false);
+
+      type.value = "private";
+      await flushPromises();
+      expect(company.errors).toEqual([]);
+      expect(formState.value.errorFields).toEqual({});
+      expect(formState.value.valid).toBe(true);
+    });
+
+    test("disabled fields are left out of submitValues", async () => {
+      const { values, submitValues, handleSubmit } = createBusinessForm();
+      expect(values.value).toEqual({ type: "private", company: "" });
+      expect(submitValues.value).toEqual({ type: "private" });
+
+      const onValid = vi.fn();
+      await handleSubmit(onValid)();
+      expect(onValid.mock.calls[0][0]).toEqual({ type: "private" });
+    });
+
+    test("disabled can be a ref or set on the field", async () => {
+      const disabled = ref(true);
+      const { name, city, submitValues } = useForm({
+        name: { value: "John", disabled },
+        city: "Amsterdam",
+      });
+      expect(name.disabled).toBe(true);
+      disabled.value = false;
+      expect(name.disabled).toBe(false);
+
+      city.disabled = true;
+      expect(submitValues.value).toEqual({ name: "John" });
+    });
+  });
+
   describe("form reset", () => {
     test("form reset function works", async () => {
       const { someInput, setRules, resetForm, formState } = useForm("form", {
@@ -280,6 +811,8 @@ describe("useForm", () => {
           "valid": true,
           "focused": false,
           "errors": [],
+          "warnings": [],
+          "ruleResults": {},
           "pending": false
         }
       `);
@@ -294,6 +827,8 @@ describe("useForm", () => {
               "valid": true,
               "focused": false,
               "errors": [],
+              "warnings": [],
+              "ruleResults": {},
               "pending": false
             }
           },
@@ -306,9 +841,200 @@ describe("useForm", () => {
           "pending": false,
           "touched": false,
           "errors": [],
-          "errorFields": {}
+          "errorFields": {},
+          "warnings": [],
+          "warningFields": {},
+          "dirtyFields": {},
+          "submitting": false,
+          "submitted": false,
+          "submitCount": 0
         }
       `);
     });
+
+    test("resetForm with values makes them the new initial values", async () => {
+      const { name, address, formState, resetForm } = useForm({
+        name: { value: "", rules: [() => true] },
+        address: { city: "" },
+      });
+      name.value = "John";
+      address.city.value = "Amsterdam";
+      await nextTick();
+
+      resetForm({ values: { name: "John", "address.city": "Utrecht" } });
+      await flushPromises();
+      expect(name.value).toBe("John");
+      expect(address.city.value).toBe("Utrecht");
+      expect(formState.value.dirty).toBe(false);
+      expect(name.rules.length).toBe(1);
+
+      name.value = "Jane";
+      await nextTick();
+      resetForm();
+      expect(name.value).toBe("John");
+    });
+
+    test("resetForm keeps errors and touched when asked", async () => {
+      const { name, formState, resetForm, setErrors } = useForm({ name: "" });
+      name.blur({} as FocusEvent);
+      setErrors({ name: "taken" });
+
+      resetForm({ keepErrors: true, keepTouched: true });
+      await flushPromises();
+      expect(name.errors).toEqual(["taken"]);
+      expect(name.touched).toBe(true);
+      expect(formState.value.touched).toBe(true);
+      expect(formState.value.valid).toBe(false);
+    });
+
+    test("resetForm keeps the values of dirty fields with keepDirty", async () => {
+      const { name, city, formState, resetForm } = useForm({
+        name: "",
+        city: "",
+      });
+      name.value = "John";
+      city.value = "Amsterdam";
+      await nextTick();
+
+      resetForm({ values: { city: "Amsterdam" }, keepDirty: true });
+      await nextTick();
+      expect(name.value).toBe("John");
+      expect(name.dirty).toBe(true);
+      expect(city.dirty).toBe(false);
+      expect(formState.value.dirtyFields).toEqual({ name: true });
+    });
+
+    test("resetForm ignores the event of a click handler", () => {
+      const { name, resetForm } = useForm({ name: "" });
+      name.value = "John";
+      resetForm(new Event("click") as any);
+      expect(name.value).toBe("");
+    });
+  });
+
+  describe("setInitialValues", () => {
+    test("sets the values of fields that are not dirty", async () => {
+      const { name, city, formState, setInitialValues } = useForm({
+        name: "",
+        city: "",
+      });
+      city.value = "Amsterdam";
+      await nextTick();
+
+      setInitialValues({ name: "John", city: "Utrecht" });
+      await flushPromises();
+      expect(name.value).toBe("John");
+      expect(name.dirty).toBe(false);
+      expect(city.value).toBe("Amsterdam");
+      expect(city.dirty).toBe(true);
+      expect(formState.value.dirty).toBe(true);
+
+      city.value = "Utrecht";
+      await nextTick();
+      expect(city.dirty).toBe(false);
+      expect(formState.value.dirty).toBe(false);
+    });
+
+    test("doesn't validate the new values", async () => {
+      const { name, setInitialValues } = useForm({
+        name: { value: "John", rules: [(value: string) => !!value || "required"] },
+      });
+      setInitialValues({ name: "" });
+      await flushPromises();
+      expect(name.errors).toEqual([]);
+
+      name.value = "Jane";
+      await flushPromises();
+      name.value = "";
+      await flushPromises();
+      expect(name.errors).toEqual(["required"]);
+    });
+  });
+
+  describe("error types", () => {
+    type TooYoung = { code: "tooYoung"; min: number };
+    const tooYoung = (min: number): TooYoung => ({ code: "tooYoung", min });
+
+    test("errors are untyped without rules", () => {
+      const { name, formState } = useForm({ name: "" });
+      expectTypeOf(name.errors).toEqualTypeOf<any[]>();
+      expectTypeOf(formState.value.errors).toEqualTypeOf<any[]>();
+    });
+
+    test("errors are inferred from the rules", async () => {
+      const { name, city, formState, validateForm } = useForm({
+        name: { value: "", rules: [(value) => !!value || "required"] },
+        city: {
+          value: "",
+          rules: [async (value) => (value ? undefined : ["required"])],
+        },
+      });
+      expectTypeOf(name.errors).toEqualTypeOf<string[]>();
+      expectTypeOf(city.warnings).toEqualTypeOf<string[]>();
+      expectTypeOf(formState.value.errors).toEqualTypeOf<string[]>();
+      expectTypeOf(formState.value.errorFields.name).toEqualTypeOf<string[]>();
+      expectTypeOf(formState.value.fields.city.errors).toEqualTypeOf<
+        string[]
+      >();
+
+      const result = await validateForm();
+      expectTypeOf(result.errors).toEqualTypeOf<string[]>();
+      expectTypeOf(result.errorFields.city).toEqualTypeOf<string[]>();
+      expect(result.errors).toEqual(["required", "required"]);
+    });
+
+    test("mixed rules give a union of their errors", () => {
+      const { age, formState, handleSubmit } = useForm({
+        name: {
+          value: "",
+          rules: [required(), (value) => value !== "x" || "no x"],
+        },
+        age: {
+          value: 0,
+          rules: [
+            { rule: (value) => value >= 18 || tooYoung(18) },
+            (value) => value < 150,
+          ],
+        },
+        email: "",
+      });
+      type Errors = ValidationError | string | TooYoung;
+      expectTypeOf(age.errors).toEqualTypeOf<Errors[]>();
+      expectTypeOf(formState.value.warningFields.email).toEqualTypeOf<
+        Errors[]
+      >();
+      expectTypeOf(
+        formState.value.fields.name.ruleResults.required.error
+      ).toEqualTypeOf<Errors | undefined>();
+
+      handleSubmit(
+        () => {},
+        (result) => {
+          expectTypeOf(result.errors).toEqualTypeOf<Errors[]>();
+        }
+      );
+    });
+
+    test("the error type can be given", () => {
+      type Form = { age: number };
+      const { age, setRules, setErrors } = useForm<Form, Form, TooYoung>({
+        age: { value: 0, rules: [(value) => value >= 18 || tooYoung(18)] },
+      });
+      expectTypeOf(age.errors).toEqualTypeOf<TooYoung[]>();
+
+      // @ts-expect-error the rule doesn't return a TooYoung error
+      setRules({ age: [() => "too young"] });
+      setErrors({ age: tooYoung(21) });
+      // @ts-expect-error not a TooYoung error
+      setErrors({ form: "server error" });
+    });
+
+    test("errors stay untyped when only the form type is given", () => {
+      type Form = { name: string };
+      const { name } = useForm<Form>({
+        name: { value: "", rules: [() => "required"] },
+      });
+      expectTypeOf(name.errors).toEqualTypeOf<any[]>();
+    });
   });
 });
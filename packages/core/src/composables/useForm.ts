@@ -1,33 +1,109 @@
-import { computed, nextTick, ref, watch } from "vue";
-import type { Ref } from "vue";
+import {
+  computed,
+  effectScope,
+  getCurrentScope,
+  markRaw,
+  nextTick,
+  onScopeDispose,
+  ref,
+  watch,
+} from "vue";
+import type { EffectScope, Ref } from "vue";
 import { cloneDeep } from "../utils/cloneDeep";
-import { createFields, createValidationObject } from "./lib/createFields";
+import { getPath, isPlainObject, joinPath, setPath } from "../utils/path";
+import { deepEqual } from "../utils/deepEqual";
+import {
+  collectDirty,
+  createField,
+  createFields,
+  createValidationObject,
+  disposeField,
+  initialRuleResults,
+} from "./lib/createFields";
+import type { FieldArrayRowPath } from "./useFieldArray";
+import { fieldByName, useField } from "./useField";
+import type { UseFieldOptions, UseFieldResult } from "./useField";
+import { HistoryOptions, createHistory } from "./lib/history";
+import { Messages, ValidationError } from "./lib/messages";
+import { PersistOptions, persistForm } from "./lib/persist";
+import { handleSubmit } from "./lib/submit";
+import {
+  SchemaValidationResult,
+  StandardSchemaV1,
+  applySchema,
+  createSchemaFieldRule,
+} from "./lib/schema";
 import {
+  FieldErrors,
+  clearExternalErrors,
   collectErrors,
+  fieldErrors,
+  fieldErrorsOf,
+  setExternalErrors,
   validateForm,
-  validateFormInternal,
   validationWatcher,
 } from "./lib/validation";
 
-export type Field<V, T extends Record<string, unknown>> = {
+export type Field<V, T extends Record<string, unknown>, E = any> = {
   value: V;
   name: string;
-  rules: (Rule<V, T> | RuleFunction<V, T>)[];
+  rules: (Rule<V, T, E> | RuleFunction<V, T, E>)[];
   dirty: boolean;
   touched: boolean;
   valid: boolean;
   focused: boolean;
-  errors: any[];
+  errors: E[];
+  /**
+   * Results of rules with severity warning, they don't make the field invalid
+   */
+  warnings: E[];
+  /**
+   * The result of every rule with a name, e.g. for a checklist of password requirements
+   */
+  ruleResults: Record<string, RuleResult<E>>;
   pending: boolean;
+  /**
+   * When the field is validated, overrides the mode of the form
+   */
+  mode?: ValidationMode;
+  /**
+   * Disabled fields are not validated, have no errors and are left out of submitValues.
+   * Can be set to a boolean, a ref or a function of the form state.
+   */
+  get disabled(): boolean;
+  set disabled(disabled: FieldDisabled<T>);
+  /**
+   * The name of the field in error messages, for the {label} placeholder
+   */
+  label?: string;
+  /**
+   * Converts the input to the value, e.g. a string to a number. Rules receive the parsed value.
+   */
+  parse?: (input: any) => V;
+  /**
+   * Converts the value to what is shown in the input
+   */
+  format?: (value: V) => unknown;
+  /**
+   * The value as it is shown in the input. Setting it parses the input into value,
+   * reading it returns the input as it was typed for as long as it matches the value.
+   */
+  displayValue: unknown;
 
   focus: (evt: FocusEvent) => void;
   blur: (evt: FocusEvent) => void;
-  validate: (fns?: RuleFunction<V, T>[]) => Promise<ValidationResult>;
+  validate: (fns?: RuleFunction<V, T, E>[]) => Promise<ValidationResult<E>>;
   reset: () => void;
 };
 
 export const fieldRules = Symbol("fieldRules");
 export const fieldPrevValue = Symbol("fieldPrevValue");
+export const fieldExternalErrors = Symbol("fieldExternalErrors");
+export const fieldAbortController = Symbol("fieldAbortController");
+export const fieldValidationLock = Symbol("fieldValidationLock");
+export const fieldDisabled = Symbol("fieldDisabled");
+export const fieldDisplayValue = Symbol("fieldDisplayValue");
+export const fieldSchemaRule = Symbol("fieldSchemaRule");
 
 export type InternalField<V, T extends Record<string, unknown>> = Field<
   V,
@@ -35,35 +111,91 @@ export type InternalField<V, T extends Record<string, unknown>> = Field<
 > & {
   [fieldRules]: Rule<V, T>[];
   [fieldPrevValue]: Rule<V, T>[];
+  [fieldExternalErrors]?: ErrorMessages[];
+  [fieldAbortController]?: AbortController;
+  [fieldValidationLock]?: string;
+  [fieldDisabled]?: FieldDisabled<T>;
+  [fieldDisplayValue]?: { input: unknown; value: V };
+  /**
+   * The rule derived from the schema, kept apart so setRules doesn't replace it
+   */
+  [fieldSchemaRule]?: Rule<V, T>;
 };
 
-export type RuleFunction<V, T extends Record<string, unknown>> = (
+/**
+ * What a rule returns: one or more errors, nothing or true when the value is valid,
+ * or false for an error with the code "invalid"
+ */
+export type RuleReturn<E> = E | E[] | boolean | undefined | null;
+
+export type RuleFunction<V, T extends Record<string, unknown>, E = any> = (
   value: V,
   fieldName: string,
-  formState: Ref<FormState<T>>
-) => (ErrorMessages | undefined) | Promise<ErrorMessages | undefined>;
+  formState: Ref<FormState<T>>,
+  /**
+   * Aborted when a newer validation of the field starts
+   */
+  signal: AbortSignal
+) => RuleReturn<E> | Promise<RuleReturn<E>>;
 
 export type InternalRuleFunction<V> = (
   ...args: any[]
 ) => (ErrorMessages | undefined) | Promise<ErrorMessages | undefined>;
 
-export type FormRuleFunction<T extends Record<string, unknown>> = (
-  formState: Ref<FormState<T>>
-) => (ErrorMessages | undefined) | Promise<ErrorMessages | undefined>;
+export type FormRuleFunction<T extends Record<string, unknown>, E = any> = (
+  formState: Ref<FormState<T>>,
+  /**
+   * Aborted when a newer validation of the form rules starts
+   */
+  signal: AbortSignal
+) => RuleReturn<E> | FieldErrors<E> | Promise<RuleReturn<E> | FieldErrors<E>>;
 
 export type InternalRule<V> = {
   rule: InternalRuleFunction<V>;
   autoValidate?: boolean;
+  severity?: RuleSeverity;
+  name?: string;
+  debounce?: number;
+  deps?: string[];
 };
 
-export type Rule<V, T extends Record<string, unknown>> = {
-  rule: RuleFunction<V, T>;
+/**
+ * Results of rules with severity warning end up in warnings, they don't make
+ * the field or form invalid and don't block submitting
+ */
+export type RuleSeverity = "error" | "warning";
+
+export type Rule<V, T extends Record<string, unknown>, E = any> = {
+  rule: RuleFunction<V, T, E>;
   autoValidate?: boolean;
+  severity?: RuleSeverity;
+  /**
+   * Waits this many milliseconds after the last change before the rule is
+   * called. Only applies to automatic validation, validateForm doesn't wait.
+   */
+  debounce?: number;
+  /**
+   * Fields this rule depends on. A change to one of them validates this field
+   * again, once it is dirty or touched.
+   */
+  deps?: FieldPath<T>[];
+  /**
+   * Describe the rule, e.g. to show a required marker or to set maxlength on the input.
+   * The built-in rules set these.
+   */
+  name?: string;
+  params?: Record<string, unknown>;
+  /**
+   * The rule makes the field required
+   */
+  required?: boolean;
 };
 
-export type FormRule<T extends Record<string, unknown>> = {
-  rule: FormRuleFunction<T>;
+export type FormRule<T extends Record<string, unknown>, E = any> = {
+  rule: FormRuleFunction<T, E>;
   autoValidate?: boolean;
+  severity?: RuleSeverity;
+  debounce?: number;
 };
 
 export type KindOfRule<V, T extends Record<string, unknown>> =
@@ -72,89 +204,414 @@ export type KindOfRule<V, T extends Record<string, unknown>> =
   | FormRule<T>
   | FormRuleFunction<T>;
 
-type InitialFormStateField<V, T extends Record<string, unknown>> = {
+export type FieldDisabled<T extends Record<string, unknown>> =
+  | boolean
+  | Ref<boolean>
+  | ((formState: Ref<FormState<T>>) => boolean);
+
+type InitialFormStateField<V, T extends Record<string, unknown>, E = any> = {
   value: V;
-  rules?: (Rule<V, T> | RuleFunction<V, T>)[];
+  rules?: (Rule<V, T, E> | RuleFunction<V, T, E>)[];
+  mode?: ValidationMode;
+  disabled?: FieldDisabled<T>;
+  label?: string;
+  parse?: (input: any) => V;
+  format?: (value: V) => unknown;
 };
 
-type ValidationResult = {
+/**
+ * When fields are validated:
+ * - onChange: when the value changes
+ * - onBlur: when the field loses focus
+ * - onTouched: on the first blur, after that on every change
+ * - onSubmit: only when the form is submitted or validated
+ */
+export type ValidationMode = "onChange" | "onBlur" | "onTouched" | "onSubmit";
+
+export type RuleResult<E = any> = {
   valid: boolean;
-  errors: ErrorMessages;
+  /**
+   * The first error (or warning) of the rule
+   */
+  error: E | undefined;
+  pending: boolean;
 };
 
-type FormValidationResult<T extends Record<string, unknown>> = {
+type ValidationResult<E = any> = {
   valid: boolean;
-  errors: ErrorMessages;
-  errorFields: { [P in keyof T]: ErrorMessages };
+  errors: E[];
+};
+
+export type FormValidationResult<
+  T extends Record<string, unknown>,
+  O = T,
+  E = any
+> = {
+  valid: boolean;
+  errors: E[];
+  errorFields: { [P in FieldPath<T>]: E[] };
+  warnings: E[];
+  warningFields: { [P in FieldPath<T>]: E[] };
+  /**
+   * The results of the named rules per field
+   */
+  ruleResults: Partial<{ [P in FieldPath<T>]: Record<string, RuleResult<E>> }>;
+  /**
+   * The parsed output of the schema, when a schema is used and the form is valid
+   */
+  output?: O;
 };
 
 export type InternalValidationResult = {
   valid: boolean;
   errors: ErrorMessages;
+  /**
+   * Errors that form rules returned for specific fields, see fieldErrors
+   */
+  errorFields?: Record<string, ErrorMessages[]>;
+  /**
+   * Results of rules with severity warning
+   */
+  warnings?: ErrorMessages[];
+  warningFields?: Record<string, ErrorMessages[]>;
 };
 
-type Fields<T extends Record<string, unknown>> = {
-  [P in keyof T]: Field<T[P], T>;
+type Primitive = string | number | boolean | bigint | symbol | undefined | null;
+
+/**
+ * Plain objects are split up into subfields, anything else (arrays, dates,
+ * files) is kept as a single field.
+ */
+export type IsNestedObject<V> = V extends
+  | Primitive
+  | Date
+  | Blob
+  | Function
+  | ReadonlyArray<unknown>
+  ? false
+  : V extends object
+  ? true
+  : false;
+
+/**
+ * All field names of a form, nested fields are joined by a dot (e.g. "address.street")
+ */
+export type FieldPath<T> = {
+  [K in keyof T & string]: IsNestedObject<T[K]> extends true
+    ? `${K}.${FieldPath<T[K]>}`
+    : K;
+}[keyof T & string];
+
+export type PathValue<T, P extends string> = P extends keyof T
+  ? T[P]
+  : P extends `${infer K}.${infer R}`
+  ? K extends keyof T
+    ? PathValue<T[K], R>
+    : never
+  : never;
+
+export type DeepPartial<T> = {
+  [P in keyof T]?: IsNestedObject<T[P]> extends true ? DeepPartial<T[P]> : T[P];
 };
-type FieldsInit<T extends Record<string, unknown>> = {
-  [P in keyof T]: InitialFormStateField<T[P], T> | T[P];
+
+type Fields<T extends Record<string, unknown>, E> = {
+  [P in FieldPath<T>]: Field<PathValue<T, P>, T, E>;
+};
+
+type FieldsInit<S, T extends Record<string, unknown>, E> = {
+  [P in keyof S]:
+    | InitialFormStateField<S[P], T, E>
+    | (IsNestedObject<S[P]> extends true ? FieldsInit<S[P], T, E> : S[P]);
 };
 
-export type InitialFormState<T extends Record<string, unknown>> = FieldsInit<T>;
+export type InitialFormState<
+  T extends Record<string, unknown>,
+  E = any
+> = FieldsInit<T, T, E>;
 
 export type ErrorMessages = any | any[];
 
-export type FormState<T extends Record<string, unknown>> = {
-  fields: Fields<T>;
+type IsAny<X> = 0 extends 1 & X ? true : false;
+
+// errors of a rule result, false becomes a ValidationError with the code "invalid".
+// Messages are widened, so other messages (e.g. from setErrors) fit as well.
+type ResultErrors<R> = IsAny<R> extends true
+  ? any
+  : R extends string
+  ? string
+  : R extends number
+  ? number
+  : R extends readonly (infer I)[]
+  ? ResultErrors<I>
+  : R extends FieldErrors<infer E>
+  ? E
+  : R extends false
+  ? ValidationError
+  : R extends true | undefined | null | void
+  ? never
+  : R;
+
+type RuleErrors<R> = R extends (...args: any[]) => infer X
+  ? ResultErrors<Awaited<X>>
+  : R extends { rule: infer F }
+  ? RuleErrors<F>
+  : never;
+
+type InitRules<I> = I extends { value: unknown; rules?: readonly (infer R)[] }
+  ? R
+  : IsNestedObject<I> extends true
+  ? { [K in keyof I]: InitRules<I[K]> }[keyof I]
+  : never;
+
+/**
+ * The errors of a form: the error type that is given, or else the errors the
+ * rules of the initial state return. Forms without rules have untyped errors.
+ */
+export type InferErrors<E, I> = [E] extends [never]
+  ? [RuleErrors<InitRules<I>>] extends [never]
+    ? any
+    : RuleErrors<InitRules<I>>
+  : E;
+
+export type FormState<T extends Record<string, unknown>, E = any> = {
+  fields: Fields<T, E>;
   valid: boolean;
   dirty: boolean;
   touched: boolean;
-  errors: ErrorMessages;
+  errors: E[];
   pending: boolean;
-  initialFields: Fields<T>;
-  errorFields: { [P in keyof T]: ErrorMessages };
+  initialFields: InitialFormState<T>;
+  errorFields: { [P in FieldPath<T>]: E[] };
+  /**
+   * Results of rules with severity warning, they don't affect valid
+   */
+  warnings: E[];
+  warningFields: { [P in FieldPath<T>]: E[] };
+  /**
+   * The fields of which the value differs from the initial value
+   */
+  dirtyFields: Partial<{ [P in FieldPath<T>]: boolean }>;
   formRules: (FormRule<T> | FormRuleFunction<T>)[];
   context: Record<string, unknown>;
+  submitting: boolean;
+  submitted: boolean;
+  submitCount: number;
+  submitError: unknown;
 };
 
 export const formIgnoreDirty = Symbol("formIgnoreDirty");
 export const formIgnoreValidation = Symbol("formIgnoreValidation");
 export const formValidationLock = Symbol("formValidationLock");
 export const formRules = Symbol("formRules");
+export const formRuleResult = Symbol("formRuleResult");
+export const formFieldArrays = Symbol("formFieldArrays");
+export const formExternalErrors = Symbol("formExternalErrors");
+export const formSchema = Symbol("formSchema");
+export const formSchemaRule = Symbol("formSchemaRule");
+export const formMode = Symbol("formMode");
+export const formReValidateMode = Symbol("formReValidateMode");
+export const formAbortController = Symbol("formAbortController");
+export const formPendingValidations = Symbol("formPendingValidations");
+export const formPersist = Symbol("formPersist");
+export const formHistory = Symbol("formHistory");
+export const formRemovedValues = Symbol("formRemovedValues");
+export const formScope = Symbol("formScope");
+export const formConsumers = Symbol("formConsumers");
+export const formKeepAlive = Symbol("formKeepAlive");
+export const formMessages = Symbol("formMessages");
+
+/**
+ * Link between a form and the rows of a field array, so the form can
+ * validate, reset and collect errors of the rows
+ */
+export type FieldArrayRegistration = {
+  forms: () => FormResult<any>[];
+  reset: () => void;
+  /**
+   * Stops the rows and the watcher of the array field, when the field is removed
+   */
+  dispose: () => void;
+  result: unknown;
+};
 
 export type InternalFormState<T extends Record<string, unknown>> =
   FormState<T> & {
+    fields: Record<string, InternalField<T[keyof T], T>>;
     [formIgnoreDirty]: boolean;
     [formIgnoreValidation]: boolean;
     [formValidationLock]: string | undefined;
 
     [formRules]: FormRule<T>[];
+    [formRuleResult]: InternalValidationResult | undefined;
+    [formFieldArrays]: Record<string, FieldArrayRegistration>;
+    [formExternalErrors]?: ErrorMessages[];
+    [formSchema]?: (
+      values: unknown
+    ) => Promise<SchemaValidationResult<unknown>>;
+    /**
+     * The form rule derived from the schema, kept apart so setRules doesn't replace it
+     */
+    [formSchemaRule]?: FormRule<T>;
+    [formMode]?: ValidationMode;
+    [formReValidateMode]?: Exclude<ValidationMode, "onTouched">;
+    [formAbortController]?: AbortController;
+    [formPendingValidations]?: number;
+    [formPersist]?: { clear: () => void };
+    [formHistory]?: {
+      checkpoint: () => void;
+      syncFields: () => void;
+      /**
+       * The history option of the form, rows of field arrays get the same option
+       */
+      options: HistoryOptions | undefined;
+    };
+    [formRemovedValues]?: Record<string, unknown>;
+    [formScope]?: EffectScope;
+    [formConsumers]?: number;
+    [formKeepAlive]?: boolean;
+    [formMessages]?: Messages;
   };
 
-export type FormResult<T extends Record<string, unknown>> = {
-  formState: Ref<FormState<T>>;
+export type FormResult<T extends Record<string, unknown>, O = T, E = any> = {
+  formState: Ref<FormState<T, E>>;
   values: Ref<T>;
+  /**
+   * The values without disabled fields, as they are passed to handleSubmit
+   */
+  submitValues: Ref<DeepPartial<T>>;
   context: Record<string, unknown>;
   /**
    * Sets the rules for the form or for specific fields. Add { formRules: [yourRule] } to set the rules for the complet formform
    *
    * @param {} values - The rules to set.
    */
-  setRules: ReturnType<typeof setRules<T>>;
+  setRules: ReturnType<typeof setRules<T, E>>;
   setFields: ReturnType<typeof setFields<T>>;
+  /**
+   * Makes the values the new initial values, e.g. after saving or loading data.
+   * Fields that are not dirty get the new value, dirty fields keep the value the user entered.
+   *
+   * @param {} values - The new initial values, nested or by dot path.
+   */
+  setInitialValues: ReturnType<typeof setInitialValues<T>>;
+  /**
+   * Adds errors from outside the form (e.g. a server response) to fields or to the form.
+   * They stay until the value of the field changes or the form is validated again.
+   *
+   * @param {} errors - Errors per field name, rows of field arrays by their path (e.g. "lines.0.product").
+   * Errors for the complete form can be set with { form: [yourError] }, a field named form with fieldErrors({ form: [yourError] }).
+   */
+  setErrors: ReturnType<typeof setErrors<T, E>>;
+  /**
+   * Adds a field (or a group of fields) to the form, with the same initial state as useForm
+   *
+   * @param {string} name - The name of the field, can be a dot path.
+   * @param {} init - The initial value, or { value, rules } like in useForm.
+   */
+  addField: AddField<T, E>;
+  /**
+   * Removes a field (or a group of fields) from the form. It no longer takes part
+   * in validation and values. With keepValue, the value comes back when the field is added again.
+   *
+   * @param {string} name - The name of the field or group.
+   * @param {} options - { keepValue }
+   */
+  removeField: (name: string, options?: { keepValue?: boolean }) => void;
   resetForm: ReturnType<typeof resetForm<T>>;
-  validateForm: () => Promise<
-    ReturnType<ReturnType<typeof validateFormInternal>>
-  >;
-} & FormResultField<T>;
+  /**
+   * Returns only the values of fields that differ from their initial value, e.g. for a PATCH request
+   */
+  getDirtyValues: () => DeepPartial<T>;
+  validateForm: () => Promise<FormValidationResult<T, O, E>>;
+  /**
+   * Creates a submit handler. The form is validated first (including async rules), after that
+   * onValid or onInvalid is called. A new submit is ignored while a submit is in progress.
+   *
+   * @param {} onValid - Called with the form values when the form is valid.
+   * @param {} onInvalid - Called with the validation result when the form is invalid.
+   */
+  handleSubmit: ReturnType<typeof handleSubmit<T, O, E>>;
+  /**
+   * Sets the values back to before the last change. Changes are only recorded
+   * when the history option is set.
+   */
+  undo: () => void;
+  redo: () => void;
+  canUndo: Readonly<Ref<boolean>>;
+  canRedo: Readonly<Ref<boolean>>;
+  clearHistory: () => void;
+  /**
+   * Stops all watchers and running validations of the form and removes a named form from the store.
+   * Named forms are disposed automatically when the last component using them is unmounted.
+   */
+  dispose: () => void;
+  /**
+   * Connects an input to a field of this form by its name, like useField. The
+   * type of the value follows from the name, e.g. with injectForm<T>().useField("city").
+   *
+   * @param {string} name - The name of the field, can be a dot path.
+   * @param {UseFieldOptions} [options] - The id and transforms of the value for this input.
+   */
+  useField: <P extends FieldPath<T>, M = PathValue<T, P>>(
+    name: P,
+    options?: UseFieldOptions<PathValue<T, P>, M>
+  ) => UseFieldResult<PathValue<T, P>, T, M, E>;
+} & FormResultField<T, E>;
+
+type NestedFields<S, T extends Record<string, unknown>, E> = {
+  [P in keyof S]: IsNestedObject<S[P]> extends true
+    ? NestedFields<S[P], T, E>
+    : Field<S[P], T, E>;
+};
+
+type FormResultField<T extends Record<string, unknown>, E> = NestedFields<
+  T,
+  T,
+  E
+>;
 
-type FormResultField<T extends Record<string, unknown>> = {
-  [P in keyof T]: Field<T[P], T>;
+type AddField<T extends Record<string, unknown>, E> = {
+  <V>(name: string, init: InitialFormStateField<V, T, E>): Field<V, T, E>;
+  <V>(name: string, init: V): IsNestedObject<V> extends true
+    ? NestedFields<V, T, E>
+    : Field<V, T, E>;
 };
 
-type Options = {
+type Options<T extends Record<string, unknown>, O> = {
   context?: Record<string, unknown>;
   formRules?: (() => ErrorMessages | undefined)[];
+  /**
+   * A Standard Schema (e.g. zod or valibot), or a schema wrapped in one of the adapters.
+   * Rules are derived from the schema for every field.
+   */
+  schema?: StandardSchemaV1<any, O>;
+  /**
+   * When fields are validated, defaults to onChange
+   */
+  mode?: ValidationMode;
+  /**
+   * When fields are validated after the form has been submitted, defaults to onChange
+   */
+  reValidateMode?: Exclude<ValidationMode, "onTouched">;
+  /**
+   * Saves the form to storage and restores it when the form is created again.
+   * Uses localStorage and the name of the form when set to true.
+   */
+  persist?: boolean | PersistOptions<T>;
+  /**
+   * Records changes of the values, so they can be undone with undo and redo
+   */
+  history?: boolean | HistoryOptions;
+  /**
+   * Keeps a named form in the store when the last component using it is unmounted,
+   * until destroyForm or dispose is called. Named forms created outside a component are always kept.
+   */
+  keepAlive?: boolean;
+  /**
+   * Messages per error code for this form, e.g. for another language. A ref can be
+   * used to switch the messages, errors show the new messages without validating again.
+   */
+  messages?: Messages | Ref<Messages>;
 };
 
 export let store: Ref<Record<string, any>>;
@@ -173,21 +630,29 @@ const reservedKeys = ["formState", "values", "context"];
  * @param {string} formName - The name of the existing form
  * @returns {FormResult<T>} The result of the form.
  */
-export function useForm<T extends Record<string, unknown>>(
+export function useForm<T extends Record<string, unknown>, O = T, E = any>(
   formName: string
-): FormResult<T>;
+): FormResult<T, O, E>;
 
 /**
- * Initializes the form with the given initial state and options.
+ * Initializes the form with the given initial state and options. The type of
+ * the errors is inferred from the rules, or can be given as E.
  *
  * @param {InitialFormState<T>} [initState] - The initial state of the form.
  * @param {Options} [options] - The options for the form.
  * @returns {FormResult<T>} The result of the form.
  */
-export function useForm<T extends Record<string, unknown>>(
-  initState?: InitialFormState<T>,
-  options?: Options
-): FormResult<T>;
+export function useForm<
+  T extends Record<string, unknown>,
+  O = T,
+  E = never,
+  I extends InitialFormState<T> = InitialFormState<T>
+>(
+  initState?: [E] extends [never]
+    ? I & InitialFormState<T>
+    : InitialFormState<T, E>,
+  options?: Options<T, O>
+): FormResult<T, O, InferErrors<E, I>>;
 /**
  * Uses the form with the given name and initializes it with the given initial state and options.
  *
@@ -196,15 +661,22 @@ export function useForm<T extends Record<string, unknown>>(
  * @param {Options} [options] - The options for the form.
  * @returns {FormResult<T>} The result of the form.
  */
-export function useForm<T extends Record<string, unknown>>(
+export function useForm<
+  T extends Record<string, unknown>,
+  O = T,
+  E = never,
+  I extends InitialFormState<T> = InitialFormState<T>
+>(
   formName: string,
-  initState?: InitialFormState<T>,
-  options?: Options
-): FormResult<T>;
+  initState?: [E] extends [never]
+    ? I & InitialFormState<T>
+    : InitialFormState<T, E>,
+  options?: Options<T, O>
+): FormResult<T, O, InferErrors<E, I>>;
 
-export function useForm<T extends Record<string, unknown>>(
+export function useForm<T extends Record<string, unknown>, O = T>(
   ...args: any
-): FormResult<T> {
+): FormResult<T, O> {
   if (typeof args[0] !== "string") {
     args.unshift(undefined);
   }
@@ -212,7 +684,7 @@ export function useForm<T extends Record<string, unknown>>(
   const [formName, initState, options]: [
     string | undefined,
     InitialFormState<T>,
-    Options
+    Options<T, O>
   ] = args;
 
   const shouldUseState = typeof formName === "string";
@@ -228,9 +700,32 @@ export function useForm<T extends Record<string, unknown>>(
         `UseForm: Form with name ${formName} does not exist. Did you forget to initialize it?`
       );
     }
+    trackConsumer(_state);
     return _state;
   }
 
+  // named forms can outlive the component that created them
+  const scope = effectScope(shouldUseState);
+  const form = scope.run(() =>
+    createForm<T, O>(formName, initState, options, scope)
+  ) as FormResult<T, O>;
+
+  if (formName) {
+    (form.formState as Ref<InternalFormState<T>>).value[formKeepAlive] =
+      options?.keepAlive ?? !getCurrentScope();
+    store.value[formName] = markRaw(form);
+    trackConsumer(form);
+  }
+
+  return form;
+}
+
+function createForm<T extends Record<string, unknown>, O>(
+  formName: string | undefined,
+  initState: InitialFormState<T>,
+  options: Options<T, O> | undefined,
+  scope: EffectScope
+): FormResult<T, O> {
   const transformedInitState = getInitState(initState);
   const formState = ref({
     ...transformedInitState,
@@ -238,35 +733,19 @@ export function useForm<T extends Record<string, unknown>>(
     context: options?.context ?? {},
   }) as Ref<InternalFormState<T>>;
 
-  const values = computed(
-    () =>
-      Object.keys(formState.value.fields).reduce(
-        (acc, key) => ({
-          ...acc,
-          [key]: formState.value.fields[key].value,
-        }),
-        {}
-      ) as T
-  );
-
-  const returnValue = {
-    formState: formState,
-    values,
-    context: formState.value.context,
-    setRules: setRules<T>(formState),
-    setFields: setFields<T>(formState),
-    validateForm: validateForm<T>(formState),
-    resetForm: resetForm<T>(formState),
-    ...formState.value.fields,
-  };
+  formState.value[formScope] = markRaw(scope);
+  // a ref is unwrapped by the reactive form state
+  formState.value[formMessages] = options?.messages as Messages | undefined;
 
-  if (formName) {
-    store.value[formName] = returnValue;
-  }
+  const values = computed(() => getValues(formState));
+  const submitValues = computed(() => getSubmitValues(formState));
 
   (formState.value as any)[formRules] = createValidationObject(
     options?.formRules
   );
+  formState.value[formFieldArrays] = {};
+  formState.value[formMode] = options?.mode ?? "onChange";
+  formState.value[formReValidateMode] = options?.reValidateMode ?? "onChange";
 
   Object.defineProperty(formState.value, "formRules", {
     set: function (newValidate) {
@@ -285,9 +764,61 @@ export function useForm<T extends Record<string, unknown>>(
   formState.value.touched = false;
   formState.value.errors = [];
   formState.value.errorFields = {} as any;
+  formState.value.warnings = [];
+  formState.value.warningFields = {} as any;
+  formState.value.dirtyFields = {};
+  formState.value.submitting = false;
+  formState.value.submitted = false;
+  formState.value.submitCount = 0;
+  formState.value.submitError = undefined;
 
   createFields(formState);
 
+  if (options?.schema) {
+    applySchema(formState, options.schema);
+  }
+
+  if (options?.persist) {
+    persistForm(
+      formState,
+      formName,
+      options.persist === true ? {} : options.persist
+    );
+  }
+
+  const _setFields = setFields<T>(formState);
+  const returnValue = {
+    formState: formState,
+    values,
+    submitValues,
+    context: formState.value.context,
+    setRules: setRules<T>(formState),
+    setFields: _setFields,
+    setInitialValues: setInitialValues<T>(formState),
+    setErrors: setErrors<T>(formState),
+    addField: addField<T>(formState),
+    removeField: removeField<T>(formState),
+    validateForm: validateForm<T>(formState) as FormResult<
+      T,
+      O
+    >["validateForm"],
+    resetForm: resetForm<T>(formState),
+    getDirtyValues: getDirtyValues<T>(formState),
+    handleSubmit: handleSubmit<T, O>(formState, submitValues),
+    ...createHistory(
+      formState,
+      _setFields,
+      options?.history === true ? {} : options?.history || undefined
+    ),
+    dispose: disposeForm<T>(formState, formName),
+    useField: ((name: string, options?: UseFieldOptions<unknown, unknown>) =>
+      useField(fieldByName(formState, name), options)) as FormResult<
+      T,
+      O
+    >["useField"],
+    ...(nestFields(formState.value.fields) as FormResultField<T, any>),
+  };
+
   const pendingArray = computed(() => {
     return [
       ...Object.values(formState.value.fields).map((field) => field.pending),
@@ -320,6 +851,66 @@ export function useForm<T extends Record<string, unknown>>(
   return returnValue;
 }
 
+/**
+ * Counts the components (effect scopes) that use a named form, the form is
+ * disposed when the last one is unmounted
+ */
+function trackConsumer<T extends Record<string, unknown>>(
+  form: FormResult<T, any>
+) {
+  if (!getCurrentScope()) {
+    return;
+  }
+  const formState = form.formState as Ref<InternalFormState<T>>;
+  formState.value[formConsumers] = (formState.value[formConsumers] ?? 0) + 1;
+  onScopeDispose(() => {
+    const consumers = (formState.value[formConsumers] ?? 1) - 1;
+    formState.value[formConsumers] = consumers;
+    if (consumers === 0 && !formState.value[formKeepAlive]) {
+      form.dispose();
+    }
+  });
+}
+
+function disposeForm<T extends Record<string, unknown>>(
+  formState: Ref<InternalFormState<T>>,
+  formName: string | undefined
+) {
+  // the store the form was added to, the store can be replaced per request
+  const formStore = formName ? store : undefined;
+  return () => {
+    formState.value[formScope]?.stop();
+    for (const field of Object.values(formState.value.fields)) {
+      disposeField(field);
+    }
+    formState.value[formAbortController]?.abort();
+    if (formName && formStore?.value[formName]?.formState === formState) {
+      delete formStore.value[formName];
+    }
+  };
+}
+
+/**
+ * Runs fn in the effect scope of the form, so watchers created after the form
+ * (e.g. for added fields or field arrays) are stopped when the form is disposed
+ */
+export function runInFormScope<T extends Record<string, unknown>, R>(
+  formState: Ref<InternalFormState<T>>,
+  fn: () => R
+): R {
+  const scope = formState.value[formScope];
+  return scope?.active ? (scope.run(fn) as R) : fn();
+}
+
+/**
+ * Disposes the form with the given name and removes it from the store
+ *
+ * @param {string} formName - The name of the form.
+ */
+export function destroyForm(formName: string) {
+  store?.value[formName]?.dispose();
+}
+
 export function setStore(ref: Ref) {
   store = ref;
 }
@@ -328,45 +919,117 @@ export function getStore() {
   return store;
 }
 
+/**
+ * Collects the values of all fields in a (nested) object
+ */
+export function getValues<T extends Record<string, unknown>>(
+  formState: Ref<InternalFormState<T>> | Ref<FormState<T>>
+) {
+  const fields = formState.value.fields as Record<string, Field<unknown, T>>;
+  return Object.keys(fields).reduce(
+    (acc, key) => setPath(acc, key, fields[key].value),
+    {}
+  ) as T;
+}
+
+/**
+ * The values without disabled fields, these are passed to handleSubmit
+ */
+export function getSubmitValues<T extends Record<string, unknown>>(
+  formState: Ref<InternalFormState<T>> | Ref<FormState<T>>
+) {
+  const fields = formState.value.fields as Record<string, Field<unknown, T>>;
+  return Object.keys(fields)
+    .filter((key) => !fields[key].disabled)
+    .reduce(
+      (acc, key) => setPath(acc, key, fields[key].value),
+      {}
+    ) as DeepPartial<T>;
+}
+
 export function getInitState<T extends Record<string, unknown>>(
   initState: InitialFormState<T> | T
 ) {
   if (initState) {
-    const initStateFields = Object.entries(initState).reduce(
-      (acc, [key, value]) => {
-        if (reservedKeys.includes(key)) {
-          throw new Error(`UseForm: You cannot use the reserved key: ${key}`);
-        }
-        if (value?.hasOwnProperty("value")) {
-          return {
-            ...acc,
-            [key]: { ...value },
-          };
-        } else {
-          return { ...acc, [key]: { value } };
-        }
-      },
-      {}
-    );
-    return { fields: initStateFields } as InternalFormState<T>;
+    return {
+      fields: flattenInitState(initState),
+    } as InternalFormState<T>;
   } else {
     throw new Error("UseForm: You must provide an initial state");
   }
 }
 
-export function setRules<T extends Record<string, unknown>>(
+/**
+ * Turns (nested) initial state into a flat record of fields, keyed by their dot path.
+ * Plain objects without a value property are treated as a group of subfields.
+ */
+function flattenInitState(
+  initState: Record<string, unknown>,
+  prefix?: string
+): Record<string, unknown> {
+  return Object.entries(initState).reduce((acc, [key, value]) => {
+    if (!prefix && reservedKeys.includes(key)) {
+      throw new Error(`UseForm: You cannot use the reserved key: ${key}`);
+    }
+    const name = joinPath(prefix, key);
+    if ((value as any)?.hasOwnProperty("value")) {
+      return { ...acc, [name]: { ...(value as object) } };
+    }
+    if (isPlainObject(value) && Object.keys(value).length > 0) {
+      return { ...acc, ...flattenInitState(value, name) };
+    }
+    return { ...acc, [name]: { value } };
+  }, {});
+}
+
+/**
+ * Groups the flat fields record back into nested objects, so subfields can be
+ * reached with e.g. address.street
+ */
+function nestFields(fields: Record<string, unknown>) {
+  return Object.entries(fields).reduce(
+    (acc, [key, field]) => setPath(acc, key, field),
+    {}
+  );
+}
+
+/**
+ * Flattens (nested) values into [path, value] pairs. Plain objects are only
+ * followed when they are a group of fields, not when they are the value of a field.
+ */
+function flattenValues<T extends Record<string, unknown>>(
+  formState: Ref<InternalFormState<T>>,
+  values: Record<string, unknown>,
+  prefix?: string
+): [string, unknown][] {
+  return Object.entries(values).flatMap(([key, value]) => {
+    const name = joinPath(prefix, key);
+    if (!(name in formState.value.fields) && isPlainObject(value)) {
+      return flattenValues(formState, value, name);
+    }
+    return [[name, value]];
+  });
+}
+
+export function setRules<T extends Record<string, unknown>, E = any>(
   formState: Ref<InternalFormState<T>>
 ) {
   return function (
     values: Partial<
       {
-        [P in keyof T]: (RuleFunction<T[P], T> | Rule<T[P], T>)[];
+        [P in FieldPath<T>]: (
+          | RuleFunction<PathValue<T, P>, T, E>
+          | Rule<PathValue<T, P>, T, E>
+        )[];
       } & {
-        formRules: (FormRuleFunction<T> | FormRule<T>)[];
+        formRules: (FormRuleFunction<T, E> | FormRule<T, E>)[];
       }
     >
   ) {
-    for (const [key, value] of Object.entries(values) as [keyof T, any[]][]) {
+    for (const [key, value] of Object.entries(values) as [
+      FieldPath<T> | "formRules",
+      any[]
+    ][]) {
       if (key === "formRules") {
         formState.value.formRules = value;
         continue;
@@ -380,59 +1043,350 @@ export function setFields<T extends Record<string, unknown>>(
   formState: Ref<InternalFormState<T>>
 ) {
   return (
-    values: Partial<{
-      [P in keyof T]: T[P];
-    }>,
+    values: DeepPartial<T> &
+      Partial<{
+        [P in FieldPath<T>]: PathValue<T, P>;
+      }>,
     options?: { setDirty?: boolean; validate?: boolean }
   ) => {
     formState.value[formIgnoreValidation] = !(options?.validate ?? false);
     formState.value[formIgnoreDirty] = !(options?.setDirty ?? true);
-    for (const [k, v] of Object.entries(values) as [keyof T, T[keyof T]][]) {
-      formState.value.fields[k].value = v;
+    for (const [k, v] of flattenValues(formState, values)) {
+      formState.value.fields[k].value = v as T[keyof T];
     }
     nextTick(() => {
       formState.value[formIgnoreDirty] = false;
+      formState.value[formIgnoreValidation] = false;
     });
   };
 }
 
+export function addField<T extends Record<string, unknown>>(
+  formState: Ref<InternalFormState<T>>
+): AddField<T, any> {
+  return (name: string, init: unknown) => {
+    const added = flattenInitState({ [name]: init }) as Record<
+      string,
+      InternalField<T[keyof T], T>
+    >;
+    for (const key of Object.keys(added)) {
+      if (key in formState.value.fields) {
+        throw new Error(`UseForm: Field with name ${key} already exists.`);
+      }
+    }
+    insertInitialField(formState, name, init);
+
+    const removedValues = formState.value[formRemovedValues] ?? {};
+    for (const [key, value] of Object.entries(added)) {
+      (formState.value.fields as Record<string, InternalField<T[keyof T], T>>)[
+        key
+      ] = value;
+      const field = formState.value.fields[key];
+      createField(formState, key, field);
+      const schemaValidator = formState.value[formSchema];
+      if (schemaValidator) {
+        field[fieldSchemaRule] = createSchemaFieldRule<T>(schemaValidator);
+      }
+      // the value of a field that was removed with keepValue
+      if (key in removedValues) {
+        field.value = removedValues[key] as T[keyof T];
+        field[fieldPrevValue] = cloneDeep(field.value);
+        field.dirty = !deepEqual(field.value, getInitialValue(formState, key));
+        delete removedValues[key];
+      }
+    }
+    formState.value[formHistory]?.syncFields();
+    collectDirty(formState);
+
+    const fields = Object.fromEntries(
+      Object.keys(added).map((key) => [key, formState.value.fields[key]])
+    );
+    return getPath(nestFields(fields), name);
+  };
+}
+
+export function removeField<T extends Record<string, unknown>>(
+  formState: Ref<InternalFormState<T>>
+) {
+  return (name: string, options?: { keepValue?: boolean }) => {
+    const keys = Object.keys(formState.value.fields).filter(
+      (key) => key === name || key.startsWith(`${name}.`)
+    );
+    if (!keys.length) {
+      return;
+    }
+    for (const key of keys) {
+      const field = formState.value.fields[key];
+      if (options?.keepValue) {
+        formState.value[formRemovedValues] = {
+          ...formState.value[formRemovedValues],
+          [key]: cloneDeep(field.value),
+        };
+      }
+      disposeField(field);
+      delete formState.value.fields[key];
+      formState.value[formFieldArrays][key]?.dispose();
+      delete formState.value[formFieldArrays][key];
+    }
+    deleteInitialField(formState, name);
+    formState.value[formHistory]?.syncFields();
+    collectErrors(formState);
+    collectDirty(formState);
+  };
+}
+
+function insertInitialField<T extends Record<string, unknown>>(
+  formState: Ref<InternalFormState<T>>,
+  name: string,
+  init: unknown
+) {
+  const segments = name.split(".");
+  const key = segments.pop()!;
+  const parent = segments.reduce((acc, segment) => {
+    acc[segment] = acc[segment] ?? {};
+    return acc[segment];
+  }, formState.value.initialFields as Record<string, any>);
+  parent[key] = cloneDeep(init);
+}
+
+function deleteInitialField<T extends Record<string, unknown>>(
+  formState: Ref<InternalFormState<T>>,
+  name: string
+) {
+  const segments = name.split(".");
+  // walk back up, so groups without fields don't turn into an empty field
+  for (let i = segments.length; i > 0; i--) {
+    const parentPath = segments.slice(0, i - 1).join(".");
+    const parent = parentPath
+      ? getPath(formState.value.initialFields, parentPath)
+      : formState.value.initialFields;
+    const key = segments[i - 1];
+    if (i < segments.length && Object.keys(parent?.[key] ?? {}).length) {
+      return;
+    }
+    delete parent?.[key];
+  }
+}
+
+export function setInitialValues<T extends Record<string, unknown>>(
+  formState: Ref<InternalFormState<T>>
+) {
+  return (
+    values: DeepPartial<T> &
+      Partial<{
+        [P in FieldPath<T>]: PathValue<T, P>;
+      }>
+  ) => {
+    formState.value[formIgnoreDirty] = true;
+    for (const [name, value] of flattenValues(formState, values)) {
+      const field = formState.value.fields[name];
+      if (!field) {
+        continue;
+      }
+      replaceInitialValue(formState, name, value);
+      if (field.dirty) {
+        field.dirty = !deepEqual(field.value, value);
+      } else if (!deepEqual(field.value, value)) {
+        formState.value[formIgnoreValidation] = true;
+        field.value = cloneDeep(value) as T[keyof T];
+      }
+    }
+    collectDirty(formState);
+    nextTick(() => {
+      formState.value[formIgnoreDirty] = false;
+      formState.value[formIgnoreValidation] = false;
+    });
+  };
+}
+
+/**
+ * Replaces the value of a field in initialFields, keeping the rules and other
+ * options of the long form
+ */
+function replaceInitialValue<T extends Record<string, unknown>>(
+  formState: Ref<InternalFormState<T>>,
+  name: string,
+  value: unknown
+) {
+  const segments = name.split(".");
+  const key = segments.pop()!;
+  const parent = segments.reduce(
+    (acc, segment) => acc[segment],
+    formState.value.initialFields as Record<string, any>
+  );
+  if (parent[key]?.hasOwnProperty("value")) {
+    parent[key].value = cloneDeep(value);
+  } else if (isPlainObject(value) && Object.keys(value).length > 0) {
+    // a plain object would be split up into subfields
+    parent[key] = { value: cloneDeep(value) };
+  } else {
+    parent[key] = cloneDeep(value);
+  }
+}
+
+export function setErrors<T extends Record<string, unknown>, E = any>(
+  formState: Ref<InternalFormState<T>>
+) {
+  return (
+    errors: Partial<{
+      [P in FieldPath<T> | FieldArrayRowPath<T>]: E | E[];
+    }> & {
+      form?: E | E[];
+    } & Partial<FieldErrors<E>>
+  ) => {
+    const toArray = (e: ErrorMessages) =>
+      e === undefined || e === null ? [] : Array.isArray(e) ? e : [e];
+
+    const fieldEntries = [
+      ...Object.entries(errors).filter(([key]) => key !== "form"),
+      // fieldErrors reaches a field named form
+      ...Object.entries(fieldErrorsOf(errors)),
+    ];
+    if ("form" in errors) {
+      formState.value[formExternalErrors] = toArray(errors.form);
+    }
+    for (const [key, value] of fieldEntries) {
+      const field = formState.value.fields[key];
+      if (field) {
+        setExternalErrors(field, toArray(value));
+        continue;
+      }
+      // errors for a row of a field array, e.g. "contacts.0.name"
+      const fieldArray = Object.entries(formState.value[formFieldArrays]).find(
+        ([name]) => key.startsWith(`${name}.`)
+      );
+      if (fieldArray) {
+        const [name, registration] = fieldArray;
+        const [index, ...rest] = key.slice(name.length + 1).split(".");
+        const row = registration.forms()[Number(index)];
+        row?.setErrors(fieldErrors({ [rest.join(".")]: value }));
+      }
+    }
+    collectErrors(formState);
+  };
+}
+
 export function setIsServer(value: boolean) {
   isServer = value;
 }
 
 export function resetField<T extends Record<string, unknown>>(
   formState: Ref<InternalFormState<T>>,
-  key: keyof T,
-  field: InternalField<T[keyof T], T>
+  key: string,
+  field: InternalField<T[keyof T], T>,
+  options?: Pick<ResetFormOptions<T>, "keepErrors" | "keepTouched">
 ) {
-  field.value = getInitState(cloneDeep(formState.value.initialFields)).fields[
-    key
-  ].value;
+  field.value = cloneDeep(getInitialValue(formState, key));
 
   field.dirty = false;
-  field.errors = [];
-  field.valid = true;
-  field.name = key as string;
-  field.dirty = false;
-  field.touched = false;
+  // results of validations that are still running are ignored
+  delete field[fieldValidationLock];
+  field.pending = false;
+  if (!options?.keepErrors) {
+    clearExternalErrors(field);
+    field.errors = [];
+    field.warnings = [];
+    field.ruleResults = initialRuleResults(field[fieldRules]);
+    field.valid = true;
+  }
+  field.name = key;
+  if (!options?.keepTouched) {
+    field.touched = false;
+  }
   field.focused = false;
 }
 
+/**
+ * The initial value of a field, read from the initial state without copying it.
+ * Clone it before it is set on a field.
+ */
+export function getInitialValue<T extends Record<string, unknown>>(
+  formState: Ref<InternalFormState<T>>,
+  name: string
+) {
+  const init = getPath(formState.value.initialFields, name);
+  // like flattenInitState: an object with a value property is { value, rules }
+  return (init?.hasOwnProperty("value") ? init.value : init) as T[keyof T];
+}
+
+/**
+ * Returns only the values of dirty fields, e.g. for a PATCH request
+ */
+function getDirtyValues<T extends Record<string, unknown>>(
+  formState: Ref<InternalFormState<T>>
+) {
+  return () =>
+    Object.values(formState.value.fields)
+      .filter((field) => field.dirty)
+      .reduce(
+        (acc, field) => setPath(acc, field.name, cloneDeep(field.value)),
+        {}
+      ) as DeepPartial<T>;
+}
+
+export type ResetFormOptions<T extends Record<string, unknown>> = {
+  /**
+   * New initial values, e.g. the values that were just saved
+   */
+  values?: DeepPartial<T> &
+    Partial<{
+      [P in FieldPath<T>]: PathValue<T, P>;
+    }>;
+  keepErrors?: boolean;
+  keepTouched?: boolean;
+  /**
+   * Dirty fields keep the value the user entered
+   */
+  keepDirty?: boolean;
+};
+
 function resetForm<T extends Record<string, unknown>>(
   formState: Ref<InternalFormState<T>>
 ) {
-  return () => {
+  return (options?: ResetFormOptions<T>) => {
+    // resetForm is often used as click handler, which passes the event
+    const { values, keepErrors, keepTouched, keepDirty } = isPlainObject(
+      options
+    )
+      ? (options as ResetFormOptions<T>)
+      : ({} as ResetFormOptions<T>);
+
+    if (values) {
+      for (const [name, value] of flattenValues(formState, values)) {
+        if (name in formState.value.fields) {
+          replaceInitialValue(formState, name, value);
+        }
+      }
+    }
+
     formState.value[formIgnoreDirty] = true;
     formState.value[formIgnoreValidation] = true;
     formState.value[formValidationLock] = undefined;
+    formState.value[formPersist]?.clear();
+    formState.value[formHistory]?.checkpoint();
+    if (!keepErrors) {
+      formState.value[formRuleResult] = undefined;
+      formState.value[formExternalErrors] = undefined;
+    }
     Object.entries(formState.value.fields).forEach(([k, v]) => {
-      resetField(formState, k as keyof T, v);
+      if (keepDirty && v.dirty) {
+        v.dirty = !deepEqual(v.value, getInitialValue(formState, k));
+        return;
+      }
+      resetField(formState, k, v, { keepErrors, keepTouched });
+      formState.value[formFieldArrays][k]?.reset();
     });
-    formState.value.touched = false;
-    formState.value.dirty = false;
+    formState.value.touched =
+      !!keepTouched &&
+      Object.values(formState.value.fields).some((field) => field.touched);
+    collectDirty(formState);
+    formState.value.submitted = false;
+    formState.value.submitCount = 0;
+    formState.value.submitError = undefined;
     nextTick(() => {
       collectErrors(formState);
       formState.value[formIgnoreDirty] = false;
+      formState.value[formIgnoreValidation] = false;
     });
   };
 }
@@ -1,2 +1,91 @@
-import { useForm, setStore, getStore} from "./composables/useForm";
-export { useForm, setStore, getStore };
+import {
+  useForm,
+  setStore,
+  getStore,
+  destroyForm,
+} from "./composables/useForm";
+import { useFieldArray } from "./composables/useFieldArray";
+import { provideForm, injectForm } from "./composables/formContext";
+import { useField } from "./composables/useField";
+import { fieldErrors } from "./composables/lib/validation";
+import {
+  toNumber,
+  toInteger,
+  toTrimmed,
+  toDate,
+  emptyToNull,
+} from "./composables/lib/transforms";
+import {
+  required,
+  minLength,
+  maxLength,
+  email,
+  pattern,
+  min,
+  max,
+  sameAs,
+  oneOf,
+} from "./composables/lib/rules";
+import { setMessages, validationError } from "./composables/lib/messages";
+import FormInput from "./components/FormInput.vue";
+import FormSelect from "./components/FormSelect.vue";
+import FormTextarea from "./components/FormTextarea.vue";
+import FormCheckboxGroup from "./components/FormCheckboxGroup.vue";
+import FormRadioGroup from "./components/FormRadioGroup.vue";
+import FormFile from "./components/FormFile.vue";
+import FormError from "./components/FormError.vue";
+import { fromZod } from "./adapters/zod";
+import { fromValibot } from "./adapters/valibot";
+import { fromYup } from "./adapters/yup";
+export { useForm, setStore, getStore, destroyForm, useFieldArray, fieldErrors };
+export { provideForm, injectForm, useField };
+export { toNumber, toInteger, toTrimmed, toDate, emptyToNull };
+export {
+  required,
+  minLength,
+  maxLength,
+  email,
+  pattern,
+  min,
+  max,
+  sameAs,
+  oneOf,
+};
+export { setMessages, validationError };
+export {
+  FormInput,
+  FormSelect,
+  FormTextarea,
+  FormCheckboxGroup,
+  FormRadioGroup,
+  FormFile,
+  FormError,
+};
+export { fromZod, fromValibot, fromYup };
+export type { StandardSchemaV1 } from "./composables/lib/schema";
+export type { PersistOptions, PersistStorage } from "./composables/lib/persist";
+export type { HistoryOptions } from "./composables/lib/history";
+export type { FieldTransform } from "./composables/lib/transforms";
+export type { NamedRule } from "./composables/lib/rules";
+export type {
+  Messages,
+  MessageTemplate,
+  ValidationError,
+} from "./composables/lib/messages";
+export type { FieldOption, InputType } from "./components/types";
+export type {
+  Field,
+  FieldDisabled,
+  FormValidationResult,
+  Rule,
+  RuleFunction,
+  RuleResult,
+  RuleReturn,
+  RuleSeverity,
+  ResetFormOptions,
+} from "./composables/useForm";
+export type {
+  FieldAttrs,
+  UseFieldOptions,
+  UseFieldResult,
+} from "./composables/useField";
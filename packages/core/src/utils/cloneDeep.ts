@@ -1,3 +1,9 @@
+import { isPlainObject } from "./path";
+
+/**
+ * Clones arrays and plain objects. Other objects (dates, files, refs) are kept
+ * as they are.
+ */
 export function cloneDeep(value: any): any {
   if (typeof value !== "object" || value === null) {
     return value;
@@ -7,14 +13,16 @@ export function cloneDeep(value: any): any {
 
   if (Array.isArray(value)) {
     clone = value.map(cloneDeep);
-  } else {
+  } else if (isPlainObject(value)) {
     clone = {};
     for (let key in value) {
       if (value.hasOwnProperty(key)) {
         clone[key] = cloneDeep(value[key]);
       }
     }
+  } else {
+    clone = value;
   }
 
   return clone;
-}
\ No newline at end of file
+}
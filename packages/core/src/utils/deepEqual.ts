@@ -1,5 +1,10 @@
 export function deepEqual(a: any, b: any): boolean {
   if (a === b) return true;
+  // NaN, e.g. a number field with an invalid input
+  if (a !== a && b !== b) return true;
+
+  if (a instanceof Date && b instanceof Date)
+    return Object.is(a.getTime(), b.getTime());
 
   if (
     typeof a !== "object" ||
@@ -0,0 +1,32 @@
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+export function joinPath(prefix: string | undefined, key: string) {
+  return prefix ? `${prefix}.${key}` : key;
+}
+
+export function getPath(obj: any, path: string): any {
+  return path
+    .split(".")
+    .reduce((acc, key) => (acc === undefined || acc === null ? undefined : acc[key]), obj);
+}
+
+export function setPath(obj: any, path: string, value: unknown) {
+  const keys = path.split(".");
+  let current = obj;
+  keys.slice(0, -1).forEach((key) => {
+    if (typeof current[key] !== "object" || current[key] === null) {
+      // groups of fields are only made from plain objects, also with numeric keys.
+      // Arrays are a single field and are set as a whole.
+      current[key] = {};
+    }
+    current = current[key];
+  });
+  current[keys[keys.length - 1]] = value;
+  return obj;
+}
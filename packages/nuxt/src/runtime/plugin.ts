@@ -1,10 +1,13 @@
 import { defineNuxtPlugin, useState } from "#app";
-import { setStore, getStore } from "@formstate/core";
+import { setStore, getStore, destroyForm } from "@formstate/core";
 
 export default defineNuxtPlugin((nuxtApp) => {
   setStore(useState(() => ({})));
 
+  // forms of a request are not needed after rendering, this stops their watchers
   nuxtApp.hook("app:rendered", () => {
-    getStore().value = {};
+    for (const formName of Object.keys(getStore().value)) {
+      destroyForm(formName);
+    }
   });
 });